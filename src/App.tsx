@@ -2,17 +2,22 @@
  * App - 路由配置
  */
 
+import { useState } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { ChatPage, CodePage } from './pages';
 import { useTheme } from './hooks/useTheme';
 import { Button } from '@/components/ui/button';
-import { Moon, Sun, MessageSquare, Code2 } from 'lucide-react';
+import { Moon, Sun, MessageSquare, Code2, Settings } from 'lucide-react';
 import { Link, useLocation } from 'react-router-dom';
 import { OPFSManager } from '@/components/OPFSManager';
+import { ConnectionProfileSelector } from '@/components/ConnectionProfileSelector';
+import { SettingsDialog } from '@/components/SettingsDialog';
+import { DiagnosticsPanel } from '@/components/DiagnosticsPanel';
 
 function AppLayout({ children }: { children: React.ReactNode }) {
   const { theme, toggleTheme } = useTheme();
   const location = useLocation();
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
 
   const isChat = location.pathname === '/chat';
   const isCode = location.pathname === '/code';
@@ -53,6 +58,15 @@ function AppLayout({ children }: { children: React.ReactNode }) {
           </nav>
         </div>
         <div className="flex items-center gap-3">
+          <ConnectionProfileSelector onManage={() => setIsSettingsOpen(true)} />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsSettingsOpen(true)}
+            title="设置"
+          >
+            <Settings className="h-5 w-5" />
+          </Button>
           <Button 
             variant="ghost" 
             size="icon"
@@ -70,6 +84,12 @@ function AppLayout({ children }: { children: React.ReactNode }) {
 
       {/* OPFS 管理浮窗 */}
       <OPFSManager />
+
+      {/* 事件诊断浮窗（仅开发环境） */}
+      {import.meta.env.DEV && <DiagnosticsPanel />}
+
+      {/* 设置弹窗 */}
+      <SettingsDialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen} />
     </div>
   );
 }
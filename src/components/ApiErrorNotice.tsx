@@ -0,0 +1,44 @@
+/**
+ * ApiErrorNotice - REST 请求失败提示
+ * 按错误类型展示说明，并提供重试按钮
+ */
+
+import { AlertCircle, RefreshCw, WifiOff, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { describeApiError, type ApiError } from '@/services/apiError';
+
+interface ApiErrorNoticeProps {
+  error: ApiError;
+  onRetry?: () => void;
+  retrying?: boolean;
+  className?: string;
+}
+
+export function ApiErrorNotice({ error, onRetry, retrying, className }: ApiErrorNoticeProps) {
+  const Icon = error.kind === 'network' ? WifiOff : error.kind === 'timeout' ? Clock : AlertCircle;
+
+  return (
+    <div className={cn('flex flex-col items-center gap-2 p-4 text-center text-xs', className)}>
+      <Icon className="h-6 w-6 text-destructive/70" />
+      <span className="text-foreground">{describeApiError(error)}</span>
+      <span className="text-[10px] text-muted-foreground break-all">{error.path}</span>
+      {onRetry && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1.5 text-xs"
+          onClick={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onRetry();
+          }}
+          disabled={retrying}
+        >
+          <RefreshCw className={cn('h-3 w-3', retrying && 'animate-spin')} />
+          重试
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -6,10 +6,11 @@
 import React, { useRef, useCallback, useEffect } from 'react';
 import { XMarkdown } from '@ant-design/x-markdown';
 import { useArtifactStore } from '../lib/useArtifactStore';
+import { ApiErrorNotice } from './ApiErrorNotice';
 import './ArtifactPreviewSidebar.css';
 
 export const ArtifactPreviewSidebar: React.FC = () => {
-  const { isOpen, sidebarWidth, setSidebarWidth, currentArtifact, content, loading, close } = useArtifactStore();
+  const { isOpen, sidebarWidth, setSidebarWidth, currentArtifact, content, loading, error, retry, close } = useArtifactStore();
   const isResizing = useRef(false);
 
   // 拖拽调宽逻辑
@@ -71,6 +72,10 @@ export const ArtifactPreviewSidebar: React.FC = () => {
       );
     }
 
+    if (error) {
+      return <ApiErrorNotice error={error} onRetry={retry} className="h-full justify-center" />;
+    }
+
     if (!currentArtifact) {
       return null;
     }
@@ -0,0 +1,59 @@
+/**
+ * AttachmentList - 消息附件列表
+ * 图片显示缩略图，其他文件显示名称与大小；传入 onRemove 时可移除（输入框中使用）
+ */
+
+import { FileText, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatFileSize, getAttachmentSrc, isImageAttachment } from '@/lib/attachments';
+import type { Attachment } from '../types/events';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove?: (id: string) => void;
+  className?: string;
+}
+
+export function AttachmentList({ attachments, onRemove, className }: AttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {attachments.map(attachment => {
+        const src = getAttachmentSrc(attachment);
+        const title = `${attachment.name}（${formatFileSize(attachment.size)}）`;
+        return (
+          <div key={attachment.id} className="relative group/attachment">
+            {isImageAttachment(attachment) && src ? (
+              <img
+                src={src}
+                alt={attachment.name}
+                title={title}
+                className="h-16 w-16 rounded-md border object-cover bg-muted"
+              />
+            ) : (
+              <div
+                className="flex items-center gap-1.5 h-8 max-w-[200px] px-2 rounded-md border bg-muted text-xs text-foreground"
+                title={title}
+              >
+                <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                <span className="truncate">{attachment.name}</span>
+                <span className="shrink-0 text-muted-foreground">{formatFileSize(attachment.size)}</span>
+              </div>
+            )}
+            {onRemove && (
+              <button
+                type="button"
+                className="absolute -top-1.5 -right-1.5 h-4 w-4 rounded-full bg-foreground text-background flex items-center justify-center opacity-80 hover:opacity-100"
+                onClick={() => onRemove(attachment.id)}
+                title="移除附件"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import { useRef, useEffect } from 'react';
-import { Sparkles, Lightbulb } from 'lucide-react';
-import type { ChatItem } from '../types/events';
+import { Fragment, memo, useRef, useEffect, useMemo, useCallback, useState } from 'react';
+import { Sparkles, Lightbulb, Loader2, Wifi, Hourglass, ListChecks, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ChatItem, FileMention, ModelUsage, Plan, ToolApprovalDecision } from '../types/events';
+import type { StreamConnectionStatus, StreamStallStatus } from '../services/sseClient';
 import { ChatMessage } from './ChatMessage';
 import { ThoughtCard } from './ThoughtCard';
 import { ToolCard } from './ToolCard';
@@ -9,15 +11,219 @@ import { PlanCard } from './PlanCard';
 import { BDDCard } from './BDDCard';
 import { CodeTreeCard } from './CodeTreeCard';
 import { ArtifactCard } from './ArtifactCard';
+import { RawEventCard } from './RawEventCard';
+import { QueuedMessages } from './QueuedMessages';
+import { PromptTemplateForm } from './PromptTemplateForm';
+import { PromptTemplateLibrary } from './PromptTemplateLibrary';
+import { usePromptTemplateSelection } from '../hooks/usePromptTemplateSelection';
+import type { QueuedMessage } from '@/lib/useChatStore';
+import { usePromptTemplateStore, getTemplatesForMode } from '@/lib/usePromptTemplateStore';
+import type { RunMode } from '@/lib/useSettingsStore';
+import { groupStepActivity, findStepHeadings, getStepAnchorId } from '@/lib/planSteps';
+import { mapFinalAnswerUsage } from '@/lib/usage';
 import './ChatContainer.css';
 
 interface ChatContainerProps {
   messages: ChatItem[];
   isLoading: boolean;
+  // 空会话的建议提示词来自该模式的模板；选择后（填写变量）通过 onSelectPrompt 填入输入框
+  mode: RunMode;
   onSelectPrompt?: (prompt: string) => void;
+  connectionStatus?: StreamConnectionStatus | null;
+  // 流停滞时的状态与处理动作
+  stallStatus?: StreamStallStatus | null;
+  onKeepWaiting?: () => void;
+  onReconnect?: () => void;
+  onCancel?: () => void;
+  // 编辑用户消息并重新生成 / 切换分支
+  onEditMessage?: (itemId: string, input: string) => void;
+  onSwitchBranch?: (itemId: string, branchIndex: number) => void;
+  // 从某个回答分叉重新生成
+  onRegenerate?: (itemId: string) => void;
+  // 回复工具调用审批
+  onToolApproval?: (toolCallId: string, decision: ToolApprovalDecision) => void;
+  // 批准待审阅的计划（可能已编辑）
+  onApprovePlan?: (itemId: string, plan: Plan) => void;
+  // 运行中排队等待发送的消息
+  queue?: QueuedMessage[];
+  queuePaused?: boolean;
+  onEditQueued?: (id: string, input: string) => void;
+  onRemoveQueued?: (id: string) => void;
+  onResumeQueue?: () => void;
+  // 点击用户消息中 @ 引用的文件（编程模式在代码面板中打开）
+  onOpenFile?: (mention: FileMention) => void;
 }
 
-export function ChatContainer({ messages, isLoading, onSelectPrompt }: ChatContainerProps) {
+interface ChatItemViewProps {
+  item: ChatItem;
+  actionsDisabled: boolean;
+  // 会话正在运行（工具审批与计划审阅只对进行中的运行有效）
+  isRunning: boolean;
+  onEditMessage?: (itemId: string, input: string) => void;
+  onSwitchBranch?: (itemId: string, branchIndex: number) => void;
+  onRegenerate?: (itemId: string) => void;
+  onToolApproval?: (toolCallId: string, decision: ToolApprovalDecision) => void;
+  // 计划消息：各步骤的执行过程，点击步骤时滚动到对应的锚点
+  stepActivity?: Record<string, ChatItem[]>;
+  onSelectStep?: (anchorId: string) => void;
+  onApprovePlan?: (itemId: string, plan: Plan) => void;
+  onOpenFile?: (mention: FileMention) => void;
+  // 最终答案消息：本轮的 token 用量（记录在本轮的用户消息上）
+  usage?: ModelUsage;
+}
+
+/**
+ * 单条消息的渲染；memo 保证流式更新时只有内容变化的消息重新渲染
+ */
+const ChatItemView = memo(function ChatItemView({
+  item,
+  actionsDisabled,
+  isRunning,
+  onEditMessage,
+  onSwitchBranch,
+  onRegenerate,
+  onToolApproval,
+  stepActivity,
+  onSelectStep,
+  onApprovePlan,
+  onOpenFile,
+  usage,
+}: ChatItemViewProps) {
+  const regenerate = onRegenerate && (() => onRegenerate(item.id));
+
+  switch (item.type) {
+    case 'user':
+      return (
+        <ChatMessage
+          type="user"
+          content={item.content}
+          attachments={item.attachments}
+          mentions={item.mentions}
+          onOpenMention={onOpenFile}
+          editValue={item.input}
+          onEdit={onEditMessage && ((input) => onEditMessage(item.id, input))}
+          branchIndex={item.branchIndex}
+          branchCount={item.branches?.length}
+          onSwitchBranch={onSwitchBranch && ((index) => onSwitchBranch(item.id, index))}
+          actionsDisabled={actionsDisabled}
+        />
+      );
+    case 'thought':
+      return (
+        <ThoughtCard
+          content={item.content}
+          isStreaming={item.isStreaming}
+          isCancelled={item.isCancelled}
+        />
+      );
+    case 'normal_message':
+      return (
+        <ChatMessage
+          type="assistant"
+          content={item.content}
+          onRegenerate={regenerate}
+          actionsDisabled={actionsDisabled}
+        />
+      );
+    case 'tool_call': {
+      const toolCallId = item.toolCallId;
+      return (
+        <ToolCard
+          toolName={item.toolName || item.content}
+          args={item.args || {}}
+          result={item.result}
+          success={item.success}
+          duration={item.duration}
+          timestamp={item.timestamp}
+          toolCallId={item.toolCallId}
+          cancelled={item.isCancelled}
+          approval={item.approval}
+          onApprovalDecision={onToolApproval && toolCallId
+            ? (decision) => onToolApproval(toolCallId, decision)
+            : undefined}
+          canApprove={isRunning}
+        />
+      );
+    }
+    case 'final_result':
+      return (
+        <FinalAnswerCard
+          content={item.content}
+          onRegenerate={regenerate}
+          regenerateDisabled={actionsDisabled}
+          totalDuration={item.totalDuration}
+          iterationCount={item.iterationCount}
+          usage={usage}
+        />
+      );
+    case 'plan':
+      return item.plan ? (
+        <PlanCard
+          plan={item.plan}
+          stepRuns={item.stepRuns}
+          stepActivity={stepActivity}
+          onSelectStep={onSelectStep && ((stepId) => onSelectStep(getStepAnchorId(item.id, stepId)))}
+          revisions={item.planRevisions}
+          review={item.planReview}
+          onApprove={onApprovePlan && ((plan) => onApprovePlan(item.id, plan))}
+          canReview={isRunning}
+        />
+      ) : null;
+    case 'bdd':
+      return item.bddFeatures ? (
+        <BDDCard features={item.bddFeatures} />
+      ) : null;
+    case 'codegen':
+      return item.generatedFiles ? (
+        <CodeTreeCard
+          files={item.generatedFiles} 
+          summary={item.summary}
+        />
+      ) : null;
+    case 'artifact':
+      return item.artifacts && item.conversationId && item.mode ? (
+        <ArtifactCard
+          conversationId={item.conversationId}
+          mode={item.mode}
+          artifacts={item.artifacts}
+        />
+      ) : null;
+    case 'error':
+      return <ChatMessage type="error" content={item.content} />;
+    case 'unknown':
+      return (
+        <RawEventCard
+          eventType={item.eventType || item.content}
+          raw={item.rawEvent}
+        />
+      );
+    default:
+      return null;
+  }
+});
+
+export function ChatContainer({
+  messages,
+  isLoading,
+  mode,
+  onSelectPrompt,
+  connectionStatus,
+  stallStatus,
+  onKeepWaiting,
+  onReconnect,
+  onCancel,
+  onEditMessage,
+  onSwitchBranch,
+  onRegenerate,
+  onToolApproval,
+  onApprovePlan,
+  queue = [],
+  queuePaused = false,
+  onEditQueued,
+  onRemoveQueued,
+  onResumeQueue,
+  onOpenFile,
+}: ChatContainerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Auto-scroll to bottom on new messages
@@ -25,75 +231,25 @@ export function ChatContainer({ messages, isLoading, onSelectPrompt }: ChatConta
     if (containerRef.current) {
       containerRef.current.scrollTop = containerRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, connectionStatus, stallStatus, queue]);
 
-  const renderMessage = (item: ChatItem) => {
-    switch (item.type) {
-      case 'user':
-        return <ChatMessage key={item.id} type="user" content={item.content} />;
-      case 'thought':
-        return (
-          <ThoughtCard
-            key={item.id}
-            content={item.content}
-            isStreaming={item.isStreaming}
-          />
-        );
-      case 'normal_message':
-        return <ChatMessage key={item.id} type="assistant" content={item.content} />;
-      case 'tool_call':
-        return (
-          <ToolCard
-            key={item.id}
-            toolName={item.toolName || item.content}
-            args={item.args || {}}
-            result={item.result}
-            success={item.success}
-            duration={item.duration}
-            timestamp={item.timestamp}
-            toolCallId={item.toolCallId}
-          />
-        );
-      case 'final_result':
-        return <FinalAnswerCard key={item.id} content={item.content} />;
-      case 'plan':
-        return item.plan ? <PlanCard key={item.id} plan={item.plan} /> : null;
-      case 'bdd':
-        return item.bddFeatures ? (
-          <BDDCard key={item.id} features={item.bddFeatures} />
-        ) : null;
-      case 'codegen':
-        return item.generatedFiles ? (
-          <CodeTreeCard 
-            key={item.id} 
-            files={item.generatedFiles} 
-            summary={item.summary}
-          />
-        ) : null;
-      case 'artifact':
-        return item.artifacts && item.conversationId && item.mode ? (
-          <ArtifactCard
-            key={item.id}
-            conversationId={item.conversationId}
-            mode={item.mode}
-            artifacts={item.artifacts}
-          />
-        ) : null;
-      case 'error':
-        return <ChatMessage key={item.id} type="error" content={item.content} />;
-      default:
-        return null;
-    }
-  };
+  // 规划模式：按计划步骤分组的执行过程，以及每个步骤第一条执行过程前的标题
+  const stepActivity = useMemo(() => groupStepActivity(messages), [messages]);
+  const stepHeadings = useMemo(() => findStepHeadings(messages), [messages]);
+  const finalAnswerUsage = useMemo(() => mapFinalAnswerUsage(messages), [messages]);
 
-  const examplePrompts = [
-    "帮我写一个 React 登录页面",
-    "待办事项清单 (Todo List)",
-    "个人博客模板",
-    "实时天气仪表盘",
-    "贪吃蛇小游戏",
-    "Markdown 编辑器"
-  ];
+  const scrollToStep = useCallback((anchorId: string) => {
+    containerRef.current
+      ?.querySelector(`[data-step-anchor="${CSS.escape(anchorId)}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, []);
+
+  const templates = usePromptTemplateStore(state => state.templates);
+  const suggestedTemplates = useMemo(() => getTemplatesForMode(templates, mode), [templates, mode]);
+  const { pendingTemplate, selectTemplate, closeTemplateForm } = usePromptTemplateSelection(
+    (prompt) => onSelectPrompt?.(prompt)
+  );
+  const [libraryOpen, setLibraryOpen] = useState(false);
 
   return (
     <div className="chat-container scrollbar-hide" ref={containerRef}>
@@ -113,24 +269,104 @@ export function ChatContainer({ messages, isLoading, onSelectPrompt }: ChatConta
           <div className="w-full max-w-sm space-y-3">
             <div className="flex items-center gap-2 text-[10px] font-bold text-muted-foreground/60 uppercase tracking-widest px-2">
               <Lightbulb className="w-3 h-3" /> 试试提问
+              <button
+                type="button"
+                className="ml-auto flex items-center gap-1 normal-case tracking-normal font-medium hover:text-foreground"
+                onClick={() => setLibraryOpen(true)}
+                title="管理提示词模板"
+              >
+                <Settings2 className="w-3 h-3" /> 模板库
+              </button>
             </div>
             <div className="grid gap-2 overflow-y-auto max-h-[300px] pr-2 scrollbar-thin">
-              {examplePrompts.map((prompt, i) => (
+              {suggestedTemplates.length === 0 && (
+                <div className="px-4 py-3 text-xs text-muted-foreground">当前模式还没有模板，可在模板库中新建</div>
+              )}
+              {suggestedTemplates.map(template => (
                 <button 
-                  key={i}
-                  onClick={() => onSelectPrompt?.(prompt)}
+                  key={template.id}
+                  onClick={() => selectTemplate(template)}
+                  title={template.content}
                   className="text-left px-4 py-3 bg-muted/30 hover:bg-primary/10 hover:border-primary/30 border border-transparent rounded-xl text-xs text-secondary-foreground transition-all duration-200 group"
                 >
-                  <span className="opacity-70 group-hover:opacity-100">{prompt}</span>
+                  <span className="opacity-70 group-hover:opacity-100">{template.title}</span>
                 </button>
               ))}
             </div>
           </div>
+          <PromptTemplateForm template={pendingTemplate} onClose={closeTemplateForm} onInsert={(prompt) => onSelectPrompt?.(prompt)} />
+          {libraryOpen && <PromptTemplateLibrary open onOpenChange={setLibraryOpen} mode={mode} />}
         </div>
       ) : (
         <div className="messages-list">
-          {messages.map(renderMessage)}
-          {isLoading && messages[messages.length - 1]?.type !== 'thought' && (
+          {messages.map(item => {
+            // 步骤的第一条执行过程前插入步骤标题，作为计划卡片的跳转锚点
+            const heading = stepHeadings[item.id];
+            return (
+              <Fragment key={item.id}>
+                {heading && (
+                  <div
+                    data-step-anchor={heading.anchorId}
+                    className="flex items-center gap-2 pt-1 text-xs font-medium text-muted-foreground scroll-mt-4"
+                  >
+                    <ListChecks className="h-3.5 w-3.5 text-primary" />
+                    <span>步骤 {heading.stepNumber} · {heading.description}</span>
+                  </div>
+                )}
+                <ChatItemView
+                  item={item}
+                  actionsDisabled={isLoading}
+                  isRunning={isLoading}
+                  onEditMessage={onEditMessage}
+                  onSwitchBranch={onSwitchBranch}
+                  onRegenerate={onRegenerate}
+                  onToolApproval={onToolApproval}
+                  stepActivity={item.type === 'plan' ? stepActivity[item.id] : undefined}
+                  onSelectStep={item.type === 'plan' ? scrollToStep : undefined}
+                  onApprovePlan={onApprovePlan}
+                  onOpenFile={onOpenFile}
+                  usage={finalAnswerUsage[item.id]}
+                />
+              </Fragment>
+            );
+          })}
+          {connectionStatus?.state === 'reconnecting' && (
+            <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground bg-muted/50 border border-dashed rounded-md">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              <span>连接中断，正在重连…（第 {connectionStatus.attempt} 次，{Math.round(connectionStatus.delay / 1000)} 秒后）</span>
+            </div>
+          )}
+          {connectionStatus?.state === 'resumed' && (
+            <div className="flex items-center gap-2 px-3 py-2 text-xs text-primary bg-primary/10 border border-primary/20 rounded-md">
+              <Wifi className="h-3 w-3" />
+              <span>连接已恢复，继续接收</span>
+            </div>
+          )}
+          {isLoading && stallStatus && (
+            <div className="flex flex-wrap items-center gap-2 px-3 py-2 text-xs text-muted-foreground bg-muted/50 border border-dashed border-destructive/40 rounded-md">
+              <Hourglass className="h-3 w-3 text-destructive" />
+              <span className="flex-1">
+                已 {Math.round(stallStatus.idleFor / 1000)} 秒未收到后端数据，运行可能已停滞
+              </span>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onKeepWaiting}>
+                继续等待
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={onReconnect}
+                disabled={!stallStatus.canReconnect}
+                title={stallStatus.canReconnect ? undefined : '后端未提供事件 ID，无法续传'}
+              >
+                重连
+              </Button>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs hover:text-destructive" onClick={onCancel}>
+                取消
+              </Button>
+            </div>
+          )}
+          {isLoading && !stallStatus && connectionStatus?.state !== 'reconnecting' && messages[messages.length - 1]?.type !== 'thought' && (
             <div className="loading-indicator">
               <div className="loading-dots">
                 <span></span>
@@ -139,6 +375,13 @@ export function ChatContainer({ messages, isLoading, onSelectPrompt }: ChatConta
               </div>
             </div>
           )}
+          <QueuedMessages
+            queue={queue}
+            paused={queuePaused}
+            onEdit={onEditQueued}
+            onRemove={onRemoveQueued}
+            onResume={onResumeQueue}
+          />
         </div>
       )}
     </div>
@@ -1,25 +1,98 @@
-import { useRef, useEffect, type KeyboardEvent } from 'react';
+import { useRef, useEffect, useState, type KeyboardEvent, type DragEvent, type ClipboardEvent } from 'react';
 import { Button } from '@/components/ui/button';
-import { Send, X } from 'lucide-react';
+import { ToolPicker } from '@/components/ToolPicker';
+import { AttachmentList } from '@/components/AttachmentList';
+import { SlashCommandList } from '@/components/SlashCommandList';
+import { PromptTemplatePicker } from '@/components/PromptTemplatePicker';
+import { Send, X, Loader2, ListPlus, Paperclip, FileText } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ToolSelection } from '@/lib/useToolSelectionStore';
+import type { RunMode } from '@/lib/useSettingsStore';
+import { ATTACHMENT_ACCEPT, checkAttachmentFile, readAttachment } from '@/lib/attachments';
+import { getMentionQuery, matchFilePaths } from '@/lib/fileMentions';
+import {
+  useSlashCommandStore,
+  parseSlashCommand,
+  matchSlashCommands,
+  requiresArgs,
+  formatSlashCommandUsage,
+  type SlashCommand,
+  type ParsedSlashCommand,
+} from '@/lib/useSlashCommandStore';
+import type { Attachment, ToolInfo } from '../types/events';
 
 interface ChatInputProps {
-  onSend: (message: string) => void;
+  // 运行中发送的消息由调用方加入待发送队列
+  onSend: (message: string, attachments?: Attachment[]) => void;
   isLoading: boolean;
   onCancel?: () => void;
+  // 已请求取消，等待后端确认
+  isCancelling?: boolean;
   placeholder?: string;
   value: string;
   onValueChange: (value: string) => void;
+  // 待发送的附件（与输入内容一起由调用方保存，切换路由后保留）
+  attachments: Attachment[];
+  onAttachmentsChange: (attachments: Attachment[]) => void;
+  // 工具选择（不传 tools 时不显示）
+  tools?: ToolInfo[];
+  toolSelection?: ToolSelection;
+  onToolSelectionChange?: (selection: ToolSelection) => void;
+  // 可 @ 引用的项目文件路径（不传时不启用文件引用补全）
+  mentionFiles?: string[];
+  // 提示词模板选择（列出该模式的模板，不传时不显示）
+  templateMode?: RunMode;
+}
+
+// 斜杠命令的执行结果或错误提示；showHelp 时一并列出可用命令
+interface CommandNotice {
+  text: string;
+  isError?: boolean;
+  showHelp?: boolean;
 }
 
 export function ChatInput({ 
   onSend, 
   isLoading, 
   onCancel, 
+  isCancelling = false,
   placeholder = '输入你的消息...',
   value,
-  onValueChange
+  onValueChange,
+  attachments,
+  onAttachmentsChange,
+  tools = [],
+  toolSelection = null,
+  onToolSelectionChange,
+  mentionFiles,
+  templateMode,
 }: ChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // 最新的附件列表与正在读取（已占用数量名额）的附件数；连续拖入或粘贴时据此检查数量上限
+  const attachmentsRef = useRef(attachments);
+  const pendingCountRef = useRef(0);
+  // 被拒绝的文件（类型、大小或数量不符）
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // 斜杠命令：以 / 开头的输入按命令执行，不发送给 agent
+  const commands = useSlashCommandStore(state => state.commands);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  // 按 Esc 关闭补全，继续输入后重新打开
+  const [menuDismissed, setMenuDismissed] = useState(false);
+  const [commandNotice, setCommandNotice] = useState<CommandNotice | null>(null);
+  const suggestions = menuDismissed ? [] : matchSlashCommands(commands, value);
+  const parsedCommand = parseSlashCommand(value);
+  const typedCommand = parsedCommand && commands.find(c => c.name === parsedCommand.name);
+
+  // @ 文件引用：补全光标前正在输入的 "@路径"
+  const [caret, setCaret] = useState(0);
+  const mentionQuery = mentionFiles && !menuDismissed && suggestions.length === 0
+    ? getMentionQuery(value, caret)
+    : null;
+  const mentionSuggestions = mentionQuery ? matchFilePaths(mentionFiles ?? [], mentionQuery.query) : [];
+  const menuLength = suggestions.length || mentionSuggestions.length;
 
   // Auto-resize textarea
   useEffect(() => {
@@ -29,14 +102,159 @@ export function ChatInput({
     }
   }, [value]);
 
+  // 切换模式时调用方会换一份附件草稿
+  useEffect(() => {
+    attachmentsRef.current = attachments;
+  }, [attachments]);
+
+  const updateAttachments = (next: Attachment[]) => {
+    attachmentsRef.current = next;
+    onAttachmentsChange(next);
+  };
+
+  const addFiles = async (files: File[]) => {
+    const errors: string[] = [];
+    const accepted: File[] = [];
+    for (const file of files) {
+      const error = checkAttachmentFile(file, attachmentsRef.current.length + pendingCountRef.current + accepted.length);
+      if (error) {
+        errors.push(error);
+      } else {
+        accepted.push(file);
+      }
+    }
+    setAttachmentError(errors.length > 0 ? errors.join('；') : null);
+    if (accepted.length === 0) return;
+
+    pendingCountRef.current += accepted.length;
+    try {
+      const read = await Promise.all(accepted.map(readAttachment));
+      updateAttachments([...attachmentsRef.current, ...read]);
+    } catch (error) {
+      setAttachmentError(error instanceof Error ? error.message : String(error));
+    } finally {
+      pendingCountRef.current -= accepted.length;
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // 粘贴图片或文件时作为附件，粘贴纯文本时保持默认行为
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleValueChange = (next: string, nextCaret: number) => {
+    onValueChange(next);
+    setCaret(nextCaret);
+    setActiveSuggestion(0);
+    setMenuDismissed(false);
+  };
+
+  // 补全命令名；需要参数的命令补全后留出空格继续输入参数
+  const completeCommand = (command: SlashCommand) => {
+    onValueChange(command.args ? `/${command.name} ` : `/${command.name}`);
+    setActiveSuggestion(0);
+    textareaRef.current?.focus();
+  };
+
+  // 将光标前的 "@前缀" 替换为完整路径，光标移到其后继续输入（可接 ":行号"）
+  const completeMention = (path: string) => {
+    if (!mentionQuery) return;
+    const inserted = `@${path}`;
+    const next = value.slice(0, mentionQuery.start) + inserted + value.slice(caret);
+    const nextCaret = mentionQuery.start + inserted.length;
+    onValueChange(next);
+    setCaret(nextCaret);
+    setActiveSuggestion(0);
+    setMenuDismissed(true);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  // 插入模板：输入框为空时直接填入，否则另起一行追加
+  const insertTemplate = (text: string) => {
+    const next = value.trim() ? `${value.trimEnd()}\n${text}` : text;
+    onValueChange(next);
+    setCaret(next.length);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(next.length, next.length);
+    });
+  };
+
+  const runCommand = async ({ name, args }: ParsedSlashCommand) => {
+    const command = commands.find(c => c.name === name);
+    if (!command) {
+      setCommandNotice({ text: `未知命令 /${name}，可用的命令：`, isError: true, showHelp: true });
+      return;
+    }
+    if (requiresArgs(command) && !args) {
+      setCommandNotice({ text: `缺少参数，用法：${formatSlashCommandUsage(command)}`, isError: true });
+      return;
+    }
+
+    onValueChange('');
+    setCommandNotice(null);
+    try {
+      const result = await command.run(args);
+      if (result) setCommandNotice({ text: result });
+    } catch (error) {
+      setCommandNotice({ text: error instanceof Error ? error.message : String(error), isError: true });
+    }
+  };
+
   const handleSubmit = () => {
-    if (value.trim() && !isLoading) {
-      onSend(value.trim());
+    if (parsedCommand) {
+      runCommand(parsedCommand);
+      return;
+    }
+    // 只有附件、没有文字的消息也可以发送
+    if (value.trim() || attachments.length > 0) {
+      onSend(value.trim(), attachments.length > 0 ? attachments : undefined);
       onValueChange('');
+      updateAttachments([]);
+      setAttachmentError(null);
     }
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (menuLength > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const offset = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveSuggestion((activeSuggestion + offset + menuLength) % menuLength);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setMenuDismissed(true);
+        return;
+      }
+    }
+    if (mentionSuggestions.length > 0 && (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey))) {
+      e.preventDefault();
+      completeMention(mentionSuggestions[Math.min(activeSuggestion, mentionSuggestions.length - 1)]);
+      return;
+    }
+    if (suggestions.length > 0) {
+      const active = suggestions[Math.min(activeSuggestion, suggestions.length - 1)];
+      // 已完整输入不需要参数的命令时直接执行，否则先补全
+      const isComplete = value === `/${active.name}` && !requiresArgs(active);
+      if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && !isComplete)) {
+        e.preventDefault();
+        completeCommand(active);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit();
@@ -44,40 +262,151 @@ export function ChatInput({
   };
 
   return (
-    <div className="flex flex-col gap-2 p-[10px]">
-      <div className="flex items-end gap-2">
+    <div
+      className={cn('flex flex-col gap-2 p-[10px] rounded-md', isDragging && 'ring-2 ring-primary ring-inset bg-primary/5')}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <AttachmentList
+        attachments={attachments}
+        onRemove={(id) => updateAttachments(attachmentsRef.current.filter(a => a.id !== id))}
+      />
+      {attachmentError && (
+        <div className="text-xs text-destructive">{attachmentError}</div>
+      )}
+      {commandNotice && (
+        <div className="relative rounded-md border bg-muted/40 text-xs">
+          <div className={cn('px-3 pt-2 pr-8 whitespace-pre-wrap', commandNotice.isError ? 'text-destructive' : 'text-foreground', !commandNotice.showHelp && 'pb-2')}>
+            {commandNotice.text}
+          </div>
+          {commandNotice.showHelp && <SlashCommandList commands={commands} />}
+          <button
+            type="button"
+            className="absolute top-1.5 right-1.5 text-muted-foreground hover:text-foreground"
+            onClick={() => setCommandNotice(null)}
+            title="关闭"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+      )}
+      <div className="relative flex items-end gap-2">
+        {suggestions.length > 0 && (
+          <div className="absolute bottom-full left-0 right-0 mb-1 z-10 max-h-[240px] overflow-y-auto rounded-md border bg-popover shadow-md">
+            <SlashCommandList
+              commands={suggestions}
+              activeIndex={Math.min(activeSuggestion, suggestions.length - 1)}
+              onSelect={completeCommand}
+            />
+          </div>
+        )}
+        {mentionSuggestions.length > 0 && (
+          <div className="absolute bottom-full left-0 right-0 mb-1 z-10 max-h-[240px] overflow-y-auto rounded-md border bg-popover shadow-md py-1">
+            {mentionSuggestions.map((path, index) => (
+              <div
+                key={path}
+                className={cn(
+                  'flex items-center gap-2 px-3 py-1.5 text-xs cursor-pointer hover:bg-muted',
+                  index === Math.min(activeSuggestion, mentionSuggestions.length - 1) && 'bg-muted'
+                )}
+                // 在 textarea 失焦前选中，保持输入焦点
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  completeMention(path);
+                }}
+              >
+                <FileText className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                <span className="font-mono text-foreground truncate">{path}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => fileInputRef.current?.click()}
+          title="添加附件（也可拖入或粘贴）"
+        >
+          <Paperclip className="h-4 w-4" />
+        </Button>
         <textarea
           ref={textareaRef}
           className="flex-1 min-h-[40px] max-h-[150px] px-3 py-2 text-sm bg-background border border-input rounded-md resize-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 placeholder:text-muted-foreground"
-          placeholder={placeholder}
+          placeholder={isLoading ? '运行中，发送的消息将在本次运行结束后发送...' : placeholder}
           value={value}
-          onChange={(e) => onValueChange(e.target.value)}
+          onChange={(e) => handleValueChange(e.target.value, e.target.selectionStart)}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
           onKeyDown={handleKeyDown}
-          disabled={isLoading}
+          onPaste={handlePaste}
           rows={1}
         />
+        {isLoading && (value.trim() || attachments.length > 0) && !parsedCommand && (
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleSubmit}
+            title="加入发送队列"
+          >
+            <ListPlus className="h-4 w-4" />
+          </Button>
+        )}
         {isLoading ? (
           <Button
             variant="ghost"
             size="icon"
             onClick={onCancel}
-            title="取消"
+            disabled={isCancelling}
+            title={isCancelling ? '正在停止…' : '取消'}
           >
-            <X className="h-4 w-4" />
+            {isCancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
           </Button>
         ) : (
           <Button
             size="icon"
             onClick={handleSubmit}
-            disabled={!value.trim()}
+            disabled={!value.trim() && attachments.length === 0}
             title="发送"
           >
             <Send className="h-4 w-4" />
           </Button>
         )}
       </div>
-      <div className="text-xs text-muted-foreground">
-        按 Enter 发送，Shift + Enter 换行
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        {tools.length > 0 && onToolSelectionChange && (
+          <ToolPicker
+            tools={tools}
+            selection={toolSelection}
+            onChange={onToolSelectionChange}
+            disabled={isLoading}
+          />
+        )}
+        {templateMode && <PromptTemplatePicker mode={templateMode} onInsert={insertTemplate} />}
+        {typedCommand ? (
+          <span className="truncate">
+            <span className="font-mono">{formatSlashCommandUsage(typedCommand)}</span> · {typedCommand.description}
+          </span>
+        ) : (
+          <span>
+            {isLoading ? '按 Enter 加入发送队列' : '按 Enter 发送'}，Shift + Enter 换行，输入 / 使用命令
+            {mentionFiles && mentionFiles.length > 0 && '，@ 引用文件（可加 :行号 或 :起始-结束）'}
+          </span>
+        )}
       </div>
     </div>
   );
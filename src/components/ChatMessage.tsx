@@ -1,29 +1,155 @@
+import { useState } from 'react';
 import { Card } from '@/components/ui/card';
-import { AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, Pencil, ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { AttachmentList } from './AttachmentList';
+import { FileMentionChips } from './FileMentionChips';
+import type { Attachment, FileMention } from '../types/events';
 
 interface ChatMessageProps {
   type: 'user' | 'assistant' | 'error';
   content: string;
+  // 用户消息的附件
+  attachments?: Attachment[];
+  // 用户消息中 @ 引用的文件，点击时打开
+  mentions?: FileMention[];
+  onOpenMention?: (mention: FileMention) => void;
+  // 用户消息编辑：editValue 为编辑框初始内容，onEdit 提交后从该轮重新生成
+  editValue?: string;
+  onEdit?: (value: string) => void;
+  // 分支切换（当前为第 branchIndex 个，共 branchCount 个）
+  branchIndex?: number;
+  branchCount?: number;
+  onSwitchBranch?: (index: number) => void;
+  // 助手消息：重新生成该轮（原回答保留为分支）
+  onRegenerate?: () => void;
+  // 运行中不允许编辑、重新生成或切换分支
+  actionsDisabled?: boolean;
 }
 
-export function ChatMessage({ type, content }: ChatMessageProps) {
+export function ChatMessage({
+  type,
+  content,
+  attachments,
+  mentions,
+  onOpenMention,
+  editValue,
+  onEdit,
+  branchIndex = 0,
+  branchCount = 0,
+  onSwitchBranch,
+  onRegenerate,
+  actionsDisabled = false,
+}: ChatMessageProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleSubmit = () => {
+    if (!draft?.trim()) return;
+    onEdit?.(draft.trim());
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <div className="flex w-full justify-end">
+        <Card className="w-[80%] p-3 space-y-2">
+          <textarea
+            className="w-full min-h-[60px] max-h-[200px] px-2 py-1.5 text-sm bg-background border border-input rounded-md resize-y focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSubmit();
+              } else if (e.key === 'Escape') {
+                setDraft(null);
+              }
+            }}
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setDraft(null)}>
+              取消
+            </Button>
+            <Button size="sm" className="h-7 text-xs" onClick={handleSubmit} disabled={!draft.trim() || actionsDisabled}>
+              重新生成
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className={cn(
-      "flex w-full",
+      "group flex w-full items-start gap-1",
       type === 'user' ? 'justify-end' : 'justify-start'
     )}>
-      <Card className={cn(
-        "max-w-[80%] p-3",
-        type === 'user' && 'bg-primary text-primary-foreground',
-        type === 'assistant' && 'bg-card',
-        type === 'error' && 'bg-destructive text-destructive-foreground'
-      )}>
-        <div className="flex items-start gap-2">
-          {type === 'error' && <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />}
-          <div className="text-sm whitespace-pre-wrap break-words">{content}</div>
-        </div>
-      </Card>
+      {type === 'user' && onEdit && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 mt-1 opacity-0 group-hover:opacity-100 transition-opacity"
+          onClick={() => setDraft(editValue ?? content)}
+          disabled={actionsDisabled}
+          title="编辑并重新生成"
+        >
+          <Pencil className="h-3.5 w-3.5 text-muted-foreground" />
+        </Button>
+      )}
+      <div className={cn("flex flex-col max-w-[80%]", type === 'user' ? 'items-end' : 'items-start')}>
+        {attachments && <AttachmentList attachments={attachments} className="justify-end mb-1" />}
+        {mentions && <FileMentionChips mentions={mentions} onOpen={onOpenMention} className="justify-end mb-1" />}
+        <Card className={cn(
+          "p-3",
+          type === 'user' && 'bg-primary text-primary-foreground',
+          type === 'assistant' && 'bg-card',
+          type === 'error' && 'bg-destructive text-destructive-foreground'
+        )}>
+          <div className="flex items-start gap-2">
+            {type === 'error' && <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />}
+            <div className="text-sm whitespace-pre-wrap break-words">{content}</div>
+          </div>
+        </Card>
+        {branchCount > 1 && onSwitchBranch && (
+          <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              onClick={() => onSwitchBranch(branchIndex - 1)}
+              disabled={actionsDisabled || branchIndex === 0}
+              title="上一个分支"
+            >
+              <ChevronLeft className="h-3 w-3" />
+            </Button>
+            <span>分支 {branchIndex + 1}/{branchCount}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              onClick={() => onSwitchBranch(branchIndex + 1)}
+              disabled={actionsDisabled || branchIndex === branchCount - 1}
+              title="下一个分支"
+            >
+              <ChevronRight className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+      {type === 'assistant' && onRegenerate && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 mt-1 opacity-0 group-hover:opacity-100 transition-opacity"
+          onClick={onRegenerate}
+          disabled={actionsDisabled}
+          title="重新生成"
+        >
+          <RefreshCw className="h-3.5 w-3.5 text-muted-foreground" />
+        </Button>
+      )}
     </div>
   );
 }
@@ -3,10 +3,11 @@
  */
 
 import { useState, useMemo, useEffect, useRef } from 'react';
-import type { GeneratedFile } from '../types/events';
+import type { GeneratedFile, FileMention } from '../types/events';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus, vs } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { cn } from '@/lib/utils';
+import { getProjectFiles, normalizeFilePath } from '@/lib/projectFiles';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useTheme } from '../hooks/useTheme';
 import { useWebContainer } from '../hooks/useWebContainer';
@@ -17,6 +18,15 @@ interface CodePanelProps {
   tree?: unknown;
   summary?: string;
   projectId?: string;  // 项目 ID（用于 OPFS 缓存）
+  focusRequest?: FileFocusRequest | null;  // 打开并定位到指定文件（消息中的 @ 引用）
+}
+
+/**
+ * 在代码面板中打开文件的请求；requestedAt 不同即重新定位（重复点击同一引用）
+ */
+export interface FileFocusRequest {
+  mention: FileMention;
+  requestedAt: number;
 }
 
 interface TreeNode {
@@ -27,39 +37,14 @@ interface TreeNode {
   content?: string;
 }
 
-/**
- * 将 WebContainerTree 转换为扁平的 GeneratedFile 数组
- * WebContainerTree 结构: { "filename": { file: { contents: "..." } }, "dirname": { directory: { ... } } }
- */
-function parseTreeToFiles(tree: any, basePath: string = ''): GeneratedFile[] {
-  const files: GeneratedFile[] = [];
-  
-  if (!tree || typeof tree !== 'object') return files;
-  
-  for (const key of Object.keys(tree)) {
-    const node = tree[key];
-    const currentPath = basePath ? `${basePath}/${key}` : key;
-    
-    if (node.file && typeof node.file.contents === 'string') {
-      // 这是一个文件
-      files.push({
-        path: currentPath,
-        content: node.file.contents,
-      });
-    } else if (node.directory && typeof node.directory === 'object') {
-      // 这是一个目录，递归处理
-      files.push(...parseTreeToFiles(node.directory, currentPath));
-    }
-  }
-  
-  return files;
-}
-
-export function CodePanel({ files, tree, summary, projectId }: CodePanelProps) {
+export function CodePanel({ files, tree, summary, projectId, focusRequest }: CodePanelProps) {
   const { isDark } = useTheme();
   const [activeTab, setActiveTab] = useState<'code' | 'preview'>('code');
   const [selectedFile, setSelectedFile] = useState<GeneratedFile | null>(null);
   const [expandedDirs, setExpandedDirs] = useState<Set<string>>(new Set(['src']));
+  // 高亮的行范围（来自 @ 引用）
+  const [highlightedLines, setHighlightedLines] = useState<{ start: number; end: number } | null>(null);
+  const codeScrollRef = useRef<HTMLDivElement>(null);
 
   const { url, status, output, refreshKey, mount, update, smartStart } = useWebContainer({});
   
@@ -126,26 +111,14 @@ export function CodePanel({ files, tree, summary, projectId }: CodePanelProps) {
   const codeStyle = isDark ? customDarkTheme : customLightTheme;
 
   // 优先使用 tree 解析的完整文件列表（包含 package.json 等），否则使用 files 属性
-  const displayFiles = useMemo(() => {
-    if (tree && typeof tree === 'object' && Object.keys(tree).length > 0) {
-      return parseTreeToFiles(tree);
-    }
-    return files;
-  }, [tree, files]);
+  const displayFiles = useMemo(() => getProjectFiles(tree, files), [tree, files]);
 
   // Build file tree from flat file list
   const fileTree = useMemo(() => {
     const root: TreeNode = { name: '', path: '', isDir: true, children: [] };
 
     displayFiles.forEach(file => {
-      let normalizedPath = file.path;
-      if (normalizedPath.startsWith('./')) {
-        normalizedPath = normalizedPath.substring(2);
-      } else if (normalizedPath.startsWith('/')) {
-        normalizedPath = normalizedPath.substring(1);
-      }
-
-      const parts = normalizedPath.split('/').filter(Boolean);
+      const parts = normalizeFilePath(file.path).split('/').filter(Boolean);
       let current = root;
 
       parts.forEach((part, index) => {
@@ -180,6 +153,33 @@ export function CodePanel({ files, tree, summary, projectId }: CodePanelProps) {
     return root;
   }, [displayFiles]);
 
+  // 打开引用的文件：展开所在目录、切换到代码页并高亮行范围
+  // 在渲染时响应新的请求（每个请求只处理一次，之后文件更新时不再重新定位）
+  const [handledFocus, setHandledFocus] = useState<FileFocusRequest | null>(null);
+  if (focusRequest && focusRequest !== handledFocus) {
+    const { path, startLine, endLine } = focusRequest.mention;
+    const file = displayFiles.find(f => normalizeFilePath(f.path) === path);
+    if (file) {
+      const parts = path.split('/');
+      setHandledFocus(focusRequest);
+      setExpandedDirs(prev => {
+        const next = new Set(prev);
+        parts.slice(0, -1).forEach((_, index) => next.add(parts.slice(0, index + 1).join('/')));
+        return next;
+      });
+      setSelectedFile(file);
+      setActiveTab('code');
+      setHighlightedLines(startLine ? { start: startLine, end: endLine ?? startLine } : null);
+    }
+  }
+
+  // 滚动到高亮的第一行
+  useEffect(() => {
+    if (!highlightedLines) return;
+    const line = codeScrollRef.current?.querySelector(`[data-line="${highlightedLines.start}"]`);
+    line?.scrollIntoView({ block: 'center' });
+  }, [highlightedLines, selectedFile]);
+
   const toggleDir = (path: string) => {
     setExpandedDirs(prev => {
       const next = new Set(prev);
@@ -194,16 +194,9 @@ export function CodePanel({ files, tree, summary, projectId }: CodePanelProps) {
 
   const selectFile = (node: TreeNode) => {
     if (!node.isDir) {
-      const file = displayFiles.find(f => {
-         let normalizedPath = f.path;
-         if (normalizedPath.startsWith('./')) {
-            normalizedPath = normalizedPath.substring(2);
-         } else if (normalizedPath.startsWith('/')) {
-            normalizedPath = normalizedPath.substring(1);
-         }
-         return normalizedPath === node.path;
-      });
+      const file = displayFiles.find(f => normalizeFilePath(f.path) === node.path);
       setSelectedFile(file || null);
+      setHighlightedLines(null);
     }
   };
 
@@ -302,10 +295,7 @@ export function CodePanel({ files, tree, summary, projectId }: CodePanelProps) {
                   node={node}
                   depth={0}
                   expandedDirs={expandedDirs}
-                  selectedPath={selectedFile ?  
-                    (selectedFile.path.startsWith('./') ? selectedFile.path.substring(2) : 
-                     selectedFile.path.startsWith('/') ? selectedFile.path.substring(1) : selectedFile.path) 
-                    : undefined}
+                  selectedPath={selectedFile ? normalizeFilePath(selectedFile.path) : undefined}
                   onToggleDir={toggleDir}
                   onSelectFile={selectFile}
                 />
@@ -318,7 +308,7 @@ export function CodePanel({ files, tree, summary, projectId }: CodePanelProps) {
                   <div className="px-4 py-2 border-b border-border bg-muted/10 flex items-center justify-between">
                     <span className="text-xs font-mono text-muted-foreground">{selectedFile.path}</span>
                   </div>
-                  <div className="flex-1 overflow-auto relative">
+                  <div ref={codeScrollRef} className="flex-1 overflow-auto relative">
                      <SyntaxHighlighter
                         language={getLanguage(selectedFile.path)}
                         style={codeStyle}
@@ -331,6 +321,18 @@ export function CodePanel({ files, tree, summary, projectId }: CodePanelProps) {
                         }}
                         showLineNumbers={true}
                         wrapLines={true}
+                        lineProps={(lineNumber: number) => {
+                          const highlighted = highlightedLines
+                            && lineNumber >= highlightedLines.start
+                            && lineNumber <= highlightedLines.end;
+                          return {
+                            'data-line': lineNumber,
+                            style: {
+                              display: 'block',
+                              ...(highlighted ? { backgroundColor: isDark ? 'rgba(255, 213, 79, 0.15)' : 'rgba(255, 213, 79, 0.3)' } : {}),
+                            },
+                          };
+                        }}
                      >
                         {selectedFile.content}
                      </SyntaxHighlighter>
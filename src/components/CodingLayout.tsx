@@ -5,24 +5,46 @@
  * 右侧：代码面板 & 预览
  */
 
-import { useState, useCallback, useRef } from 'react';
-import type { ChatItem, BDDFeature, GeneratedFile } from '../types/events';
+import { useState, useCallback, useRef, useMemo } from 'react';
+import type { ChatItem, BDDFeature, GeneratedFile, ToolApprovalDecision, Attachment, FileMention } from '../types/events';
+import type { StreamConnectionStatus, StreamStallStatus } from '../services/sseClient';
+import type { QueuedMessage } from '@/lib/useChatStore';
+import { getProjectFiles, normalizeFilePath } from '@/lib/projectFiles';
 import { ChatContainer } from './ChatContainer';
 import { ChatInput } from './ChatInput';
-import { CodePanel } from './CodePanel';
+import { CodePanel, type FileFocusRequest } from './CodePanel';
 import { ResizeHandle } from './ResizeHandle';
 import './CodingLayout.css';
 
 interface CodingLayoutProps {
   messages: ChatItem[];
   isLoading: boolean;
+  isCancelling?: boolean;
+  connectionStatus?: StreamConnectionStatus | null;
+  stallStatus?: StreamStallStatus | null;
   bddFeatures: BDDFeature[];
   generatedFiles: GeneratedFile[];
   generatedTree?: unknown;
   codeSummary?: string;
   projectId?: string;  // 新增：项目 ID
-  onSend: (message: string) => void;
+  onSend: (message: string, attachments?: Attachment[]) => void;
+  // 输入框内容与附件（草稿保存在 store 中，切换路由后保留）
+  inputValue: string;
+  onInputChange: (value: string) => void;
+  attachments: Attachment[];
+  onAttachmentsChange: (attachments: Attachment[]) => void;
   onCancel: () => void;
+  onKeepWaiting?: () => void;
+  onReconnect?: () => void;
+  onEditMessage?: (itemId: string, input: string) => void;
+  onSwitchBranch?: (itemId: string, branchIndex: number) => void;
+  onRegenerate?: (itemId: string) => void;
+  onToolApproval?: (toolCallId: string, decision: ToolApprovalDecision) => void;
+  queue?: QueuedMessage[];
+  queuePaused?: boolean;
+  onEditQueued?: (id: string, input: string) => void;
+  onRemoveQueued?: (id: string) => void;
+  onResumeQueue?: () => void;
 }
 
 // 面板最小宽度（像素）
@@ -31,17 +53,44 @@ const MIN_PANEL_WIDTH = 300;
 export function CodingLayout({ 
   messages, 
   isLoading, 
+  isCancelling,
+  connectionStatus,
+  stallStatus,
   generatedFiles,
   generatedTree,
   codeSummary,
   projectId,
   onSend,
-  onCancel
+  inputValue,
+  onInputChange,
+  attachments,
+  onAttachmentsChange,
+  onCancel,
+  onKeepWaiting,
+  onReconnect,
+  onEditMessage,
+  onSwitchBranch,
+  onRegenerate,
+  onToolApproval,
+  queue,
+  queuePaused,
+  onEditQueued,
+  onRemoveQueued,
+  onResumeQueue,
 }: CodingLayoutProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  
-  // Lifted state for chat input
-  const [inputValue, setInputValue] = useState('');
+
+  // 可 @ 引用的项目文件，与代码面板展示的文件一致
+  const mentionFiles = useMemo(
+    () => getProjectFiles(generatedTree, generatedFiles).map(file => normalizeFilePath(file.path)),
+    [generatedTree, generatedFiles]
+  );
+
+  // 点击消息中的文件引用时，在代码面板中打开并定位到行范围
+  const [focusRequest, setFocusRequest] = useState<FileFocusRequest | null>(null);
+  const handleOpenFile = useCallback((mention: FileMention) => {
+    setFocusRequest({ mention, requestedAt: Date.now() });
+  }, []);
 
   // 面板宽度百分比（两栏布局）
   const [panelWidths, setPanelWidths] = useState({
@@ -82,14 +131,35 @@ export function CodingLayout({
         <ChatContainer 
           messages={messages} 
           isLoading={isLoading} 
-          onSelectPrompt={setInputValue}
+          mode="coding"
+          onSelectPrompt={onInputChange}
+          connectionStatus={connectionStatus}
+          stallStatus={stallStatus}
+          onKeepWaiting={onKeepWaiting}
+          onReconnect={onReconnect}
+          onCancel={onCancel}
+          onEditMessage={onEditMessage}
+          onSwitchBranch={onSwitchBranch}
+          onRegenerate={onRegenerate}
+          onToolApproval={onToolApproval}
+          queue={queue}
+          queuePaused={queuePaused}
+          onEditQueued={onEditQueued}
+          onRemoveQueued={onRemoveQueued}
+          onResumeQueue={onResumeQueue}
+          onOpenFile={handleOpenFile}
         />
         <ChatInput 
           onSend={onSend} 
           isLoading={isLoading} 
           onCancel={onCancel}
+          isCancelling={isCancelling}
           value={inputValue}
-          onValueChange={setInputValue}
+          onValueChange={onInputChange}
+          attachments={attachments}
+          onAttachmentsChange={onAttachmentsChange}
+          mentionFiles={mentionFiles}
+          templateMode="coding"
         />
       </div>
       
@@ -104,6 +174,7 @@ export function CodingLayout({
           tree={generatedTree} 
           summary={codeSummary}
           projectId={projectId}
+          focusRequest={focusRequest}
         />
       </div>
     </div>
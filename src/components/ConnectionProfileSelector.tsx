@@ -0,0 +1,73 @@
+/**
+ * ConnectionProfileSelector - 后端连接配置切换器
+ * 位于顶部导航栏，运行时切换当前使用的后端
+ */
+
+import { Server, ChevronDown, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useSettingsStore } from '@/lib/useSettingsStore';
+import { useFixtureStore } from '@/lib/useFixtureStore';
+
+interface ConnectionProfileSelectorProps {
+  onManage: () => void;
+}
+
+export function ConnectionProfileSelector({ onManage }: ConnectionProfileSelectorProps) {
+  const { profiles, activeProfileId, setActiveProfile } = useSettingsStore();
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  const isRecording = useFixtureStore(state => state.isRecording);
+  const saveError = useFixtureStore(state => state.saveError);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 gap-2 text-xs max-w-[200px]"
+          title={activeProfile?.baseUrl}
+        >
+          {isRecording ? (
+            <span
+              className={`h-2 w-2 rounded-full bg-destructive flex-shrink-0 ${saveError ? '' : 'animate-pulse'}`}
+              title={saveError ? `正在录制（${saveError}）` : '正在录制'}
+            />
+          ) : (
+            <Server className="h-3.5 w-3.5 flex-shrink-0" />
+          )}
+          <span className="truncate">{activeProfile?.name ?? '未配置'}</span>
+          <ChevronDown className="h-3.5 w-3.5 opacity-50 flex-shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="end" className="w-[260px]">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">后端连接</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={activeProfileId} onValueChange={setActiveProfile}>
+          {profiles.map(profile => (
+            <DropdownMenuRadioItem key={profile.id} value={profile.id} className="flex flex-col items-start">
+              <span className="text-sm">{profile.name}</span>
+              <span className="text-[10px] text-muted-foreground truncate max-w-full">
+                {profile.mock ? '回放本地 Fixture' : profile.baseUrl}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onManage} className="gap-2 text-xs">
+          <Settings2 className="h-3.5 w-3.5" />
+          管理连接…
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
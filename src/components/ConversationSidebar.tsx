@@ -7,48 +7,82 @@ import { Plus, Trash2, MessageSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
+import { useSettingsStore } from '@/lib/useSettingsStore';
+import { ApiErrorNotice } from '@/components/ApiErrorNotice';
+import { UsageSummary } from '@/components/UsageSummary';
+import { describeApiError, type ApiError } from '@/services/apiError';
 import { 
   getReactConversations, 
   getPlannerConversations,
+  getCodingConversations,
   deleteReactConversation,
   deletePlannerConversation,
+  deleteCodingConversation,
   type ConversationListItem,
 } from '@/services/sseClient';
+import type { ModelUsage } from '../types/events';
 
 interface ConversationSidebarProps {
-  mode: 'react' | 'planner';
+  mode: 'react' | 'planner' | 'coding';
   currentConversationId?: string;
-  onSelectConversation: (id: string) => void;
+  /** 编程模式下只列出该项目的会话 */
+  projectId?: string;
+  /** 返回加载失败的错误（如有），由侧边栏展示 */
+  onSelectConversation: (id: string) => Promise<ApiError | null> | void;
   onNewConversation: () => void;
+  /** 当前会话已加载消息的 token 用量，比列表中的统计更新 */
+  currentUsage?: ModelUsage;
 }
 
 export function ConversationSidebar({
   mode,
   currentConversationId,
+  projectId,
   onSelectConversation,
   onNewConversation,
+  currentUsage,
 }: ConversationSidebarProps) {
   const [conversations, setConversations] = useState<ConversationListItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // 列表加载失败
+  const [listError, setListError] = useState<ApiError | null>(null);
+  // 打开 / 删除单个会话失败
+  const [actionError, setActionError] = useState<{ id: string; message: string } | null>(null);
+  const activeProfileId = useSettingsStore(state => state.activeProfileId);
 
   // 加载会话列表
   const loadConversations = async () => {
     setIsLoading(true);
+    setListError(null);
+    setActionError(null);
     try {
-      const list = mode === 'react' 
+      const result = mode === 'react'
         ? await getReactConversations()
-        : await getPlannerConversations();
-      setConversations(list);
-    } catch (error) {
-      console.error('Failed to load conversations:', error);
+        : mode === 'planner'
+          ? await getPlannerConversations()
+          : await getCodingConversations(projectId);
+      if (result.ok) {
+        setConversations(result.data);
+      } else {
+        setListError(result.error);
+      }
     } finally {
       setIsLoading(false);
     }
   };
 
+  // 打开会话
+  const handleSelect = async (id: string) => {
+    setActionError(null);
+    const error = await onSelectConversation(id);
+    if (error) {
+      setActionError({ id, message: `打开失败：${describeApiError(error)}` });
+    }
+  };
+
   useEffect(() => {
     loadConversations();
-  }, [mode]);
+  }, [mode, projectId, activeProfileId]);
 
   // 删除会话
   const handleDelete = async (e: React.MouseEvent, id: string) => {
@@ -56,15 +90,20 @@ export function ConversationSidebar({
     const confirm = window.confirm('确定要删除这个会话吗？');
     if (!confirm) return;
 
+    setActionError(null);
     const result = mode === 'react'
       ? await deleteReactConversation(id)
-      : await deletePlannerConversation(id);
+      : mode === 'planner'
+        ? await deletePlannerConversation(id)
+        : await deleteCodingConversation(id);
     
-    if (result.success) {
+    if (result.ok) {
       setConversations(prev => prev.filter(c => c.conversationId !== id));
       if (currentConversationId === id) {
         onNewConversation();
       }
+    } else {
+      setActionError({ id, message: `删除失败：${describeApiError(result.error)}` });
     }
   };
 
@@ -105,45 +144,60 @@ export function ConversationSidebar({
             <div className="text-center text-muted-foreground py-4 text-sm">
               加载中...
             </div>
+          ) : listError ? (
+            <ApiErrorNotice error={listError} onRetry={loadConversations} className="py-8" />
           ) : conversations.length === 0 ? (
             <div className="text-center text-muted-foreground py-8 text-sm">
               <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
               暂无会话记录
             </div>
           ) : (
-            conversations.map((conv) => (
-              <div
-                key={conv.conversationId}
-                className={cn(
-                  "group flex items-center gap-2 p-3 rounded-lg cursor-pointer transition-all overflow-hidden",
-                  "hover:bg-muted",
-                  currentConversationId === conv.conversationId 
-                    ? "bg-primary/10 border-l-2 border-primary" 
-                    : "border-l-2 border-transparent pl-[calc(0.75rem+2px)]"
-                )}
-                onClick={() => onSelectConversation(conv.conversationId)}
-              >
-                <div className="flex-1 min-w-0">
-                  <div className={cn(
-                    "text-sm font-medium truncate",
-                    currentConversationId === conv.conversationId && "text-primary"
-                  )}>
-                    {conv.lastUserInput || '新会话'}
-                  </div>
-                  <div className="text-xs text-muted-foreground mt-1 truncate">
-                    {formatTime(conv.updatedAt)} · {conv.totalTurns}轮对话
+            conversations.map((conv) => {
+              const usage = currentConversationId === conv.conversationId
+                ? currentUsage ?? conv.usage
+                : conv.usage;
+              return (
+                <div
+                  key={conv.conversationId}
+                  className={cn(
+                    "group flex items-center gap-2 p-3 rounded-lg cursor-pointer transition-all overflow-hidden",
+                    "hover:bg-muted",
+                    currentConversationId === conv.conversationId 
+                      ? "bg-primary/10 border-l-2 border-primary" 
+                      : "border-l-2 border-transparent pl-[calc(0.75rem+2px)]"
+                  )}
+                  onClick={() => handleSelect(conv.conversationId)}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className={cn(
+                      "text-sm font-medium truncate",
+                      currentConversationId === conv.conversationId && "text-primary"
+                    )}>
+                      {conv.lastUserInput || '新会话'}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1 truncate">
+                      {formatTime(conv.updatedAt)} · {conv.totalTurns}轮对话
+                    </div>
+                    {usage && (
+                      <UsageSummary usage={usage} className="text-xs text-muted-foreground mt-0.5 max-w-full truncate" />
+                    )}
+                    {actionError?.id === conv.conversationId && (
+                      <div className="text-xs text-destructive mt-1 truncate" title={actionError.message}>
+                        {actionError.message}
+                      </div>
+                    )}
                   </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
+                    onClick={(e) => handleDelete(e, conv.conversationId)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5 text-muted-foreground hover:text-destructive" />
+                  </Button>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-7 w-7 opacity-0 group-hover:opacity-100 transition-opacity shrink-0"
-                  onClick={(e) => handleDelete(e, conv.conversationId)}
-                >
-                  <Trash2 className="h-3.5 w-3.5 text-muted-foreground hover:text-destructive" />
-                </Button>
-              </div>
-            ))
+              );
+            })
           )}
         </div>
       </ScrollArea>
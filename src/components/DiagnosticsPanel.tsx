@@ -0,0 +1,95 @@
+/**
+ * DiagnosticsPanel - 事件诊断浮窗（仅开发环境）
+ * 展示未通过运行时校验的流式事件，并提供流式渲染基准测试
+ */
+
+import { useState } from 'react';
+import { Bug, X, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { StreamBenchmarkPanel } from '@/components/StreamBenchmarkPanel';
+import { useDiagnosticsStore } from '@/lib/useDiagnosticsStore';
+
+export function DiagnosticsPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { diagnostics, clear } = useDiagnosticsStore();
+
+  return (
+    <>
+      {/* 触发按钮（位于 OPFS 管理按钮左侧） */}
+      <button
+        className="fixed bottom-6 right-[88px] z-[9999] h-12 w-12 rounded-full bg-card border border-border shadow-lg flex items-center justify-center hover:bg-muted transition-colors"
+        onClick={() => setIsOpen(!isOpen)}
+        title="事件诊断"
+      >
+        <Bug className="h-5 w-5 text-muted-foreground" />
+        {diagnostics.length > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-bold flex items-center justify-center">
+            {diagnostics.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="fixed bottom-[88px] right-[88px] z-[9998] w-[420px] max-h-[480px] flex flex-col bg-card border border-border rounded-2xl shadow-2xl overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+            <h3 className="flex items-center gap-2 text-sm font-semibold">
+              <Bug className="h-4 w-4" />
+              事件诊断
+            </h3>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={clear} title="清空" disabled={diagnostics.length === 0}>
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setIsOpen(false)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <Tabs defaultValue="events" className="flex-1 min-h-0 flex flex-col">
+            <TabsList className="mx-4 mt-2">
+              <TabsTrigger value="events">异常事件</TabsTrigger>
+              <TabsTrigger value="benchmark">基准测试</TabsTrigger>
+            </TabsList>
+            <TabsContent value="events" className="min-h-0">
+              <ScrollArea className="flex-1 min-h-0 max-h-[380px]">
+                {diagnostics.length === 0 ? (
+                  <div className="p-6 text-center text-xs text-muted-foreground">暂无异常事件</div>
+                ) : (
+                  <div className="p-2 space-y-2">
+                    {[...diagnostics].reverse().map(diagnostic => (
+                      <details key={diagnostic.id} className="rounded-md border p-2 text-xs">
+                        <summary className="cursor-pointer flex items-center gap-2">
+                          <Badge variant={diagnostic.reason === 'unknown_type' ? 'secondary' : 'destructive'} className="text-[10px]">
+                            {diagnostic.reason === 'unknown_type' ? '未知类型' : '校验失败'}
+                          </Badge>
+                          <span className="font-medium">{diagnostic.eventType ?? diagnostic.event}</span>
+                          <span className="text-muted-foreground">{diagnostic.source}</span>
+                          <span className="ml-auto text-muted-foreground">
+                            {new Date(diagnostic.timestamp).toLocaleTimeString()}
+                          </span>
+                        </summary>
+                        <ul className="mt-2 list-disc pl-4 text-destructive">
+                          {diagnostic.errors.map((error, i) => <li key={i}>{error}</li>)}
+                        </ul>
+                        <pre className="mt-2 bg-muted p-2 rounded-md overflow-x-auto">
+                          {JSON.stringify(diagnostic.raw, null, 2)}
+                        </pre>
+                      </details>
+                    ))}
+                  </div>
+                )}
+              </ScrollArea>
+            </TabsContent>
+            <TabsContent value="benchmark">
+              <StreamBenchmarkPanel />
+            </TabsContent>
+          </Tabs>
+        </div>
+      )}
+    </>
+  );
+}
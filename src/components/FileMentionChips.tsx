@@ -0,0 +1,43 @@
+/**
+ * FileMentionChips - 用户消息中 @ 引用的项目文件
+ * 显示文件名与行范围；传入 onOpen 时可点击，在代码面板中打开并定位
+ */
+
+import { AtSign } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatFileMention } from '@/lib/fileMentions';
+import type { FileMention } from '../types/events';
+
+interface FileMentionChipsProps {
+  mentions: FileMention[];
+  onOpen?: (mention: FileMention) => void;
+  className?: string;
+}
+
+export function FileMentionChips({ mentions, onOpen, className }: FileMentionChipsProps) {
+  if (mentions.length === 0) return null;
+
+  return (
+    <div className={cn('flex flex-wrap gap-1.5', className)}>
+      {mentions.map(mention => {
+        const label = formatFileMention(mention);
+        const name = label.split('/').pop();
+        return (
+          <button
+            key={label}
+            type="button"
+            className={cn(
+              'flex items-center gap-1 h-6 max-w-[240px] px-2 rounded-md border bg-muted text-xs font-mono text-foreground',
+              onOpen ? 'hover:bg-primary/10 hover:border-primary/40' : 'cursor-default'
+            )}
+            onClick={onOpen && (() => onOpen(mention))}
+            title={onOpen ? `在代码面板中打开 ${label}` : label}
+          >
+            <AtSign className="h-3 w-3 shrink-0 text-muted-foreground" />
+            <span className="truncate">{name}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
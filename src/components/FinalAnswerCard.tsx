@@ -1,22 +1,74 @@
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, RefreshCw, Clock, Repeat } from 'lucide-react';
 import { XMarkdown } from '@ant-design/x-markdown';
+import { UsageSummary } from './UsageSummary';
+import type { ModelUsage } from '../types/events';
 
 interface FinalAnswerCardProps {
   content: string;
+  // 重新生成该轮（原回答保留为分支）
+  onRegenerate?: () => void;
+  regenerateDisabled?: boolean;
+  // 本轮统计（后端提供时展示）
+  totalDuration?: number;
+  iterationCount?: number;
+  usage?: ModelUsage;
 }
 
-export function FinalAnswerCard({ content }: FinalAnswerCardProps) {
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+};
+
+export function FinalAnswerCard({
+  content,
+  onRegenerate,
+  regenerateDisabled = false,
+  totalDuration,
+  iterationCount,
+  usage,
+}: FinalAnswerCardProps) {
+  const hasStats = totalDuration !== undefined || iterationCount !== undefined || usage !== undefined;
   return (
     <Card className="border-l-4 border-l-primary mb-4">
       <CardHeader className="p-4 pb-2">
         <div className="flex items-center gap-2 text-sm font-medium">
           <CheckCircle2 className="h-4 w-4 text-primary" />
           <span>答案</span>
+          {onRegenerate && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 ml-auto"
+              onClick={onRegenerate}
+              disabled={regenerateDisabled}
+              title="重新生成"
+            >
+              <RefreshCw className="h-3.5 w-3.5 text-muted-foreground" />
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent className="p-4 pt-0">
         <XMarkdown content={content} />
+        {hasStats && (
+          <div className="flex flex-wrap items-center gap-3 mt-3 pt-2 border-t text-xs text-muted-foreground">
+            {totalDuration !== undefined && (
+              <span className="inline-flex items-center gap-1" title="总耗时">
+                <Clock className="h-3 w-3" />
+                {formatDuration(totalDuration)}
+              </span>
+            )}
+            {iterationCount !== undefined && (
+              <span className="inline-flex items-center gap-1" title="迭代次数">
+                <Repeat className="h-3 w-3" />
+                {iterationCount} 次迭代
+              </span>
+            )}
+            {usage && <UsageSummary usage={usage} />}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
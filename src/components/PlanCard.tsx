@@ -1,13 +1,93 @@
-import type { Plan } from '../types/events';
+import { useState } from 'react';
+import type { Plan, PlanStep, PlanStepRun, PlanRevision, ChatItem } from '../types/events';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { FileText, CheckCircle, Circle, XCircle, Minus, Wrench, Loader2 } from 'lucide-react';
+import {
+  FileText,
+  CheckCircle,
+  Circle,
+  XCircle,
+  Minus,
+  Wrench,
+  Loader2,
+  ChevronRight,
+  Brain,
+  MessageSquare,
+  Paperclip,
+  Clock,
+  History,
+  GitCompare,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { diffPlans, type PlanStepDiff } from '@/lib/planRevisions';
+import { PlanEditor } from './PlanEditor';
 
 interface PlanCardProps {
   plan: Plan;
+  // 各步骤的执行情况与执行过程（思考、工具调用等）
+  stepRuns?: Record<string, PlanStepRun>;
+  stepActivity?: Record<string, ChatItem[]>;
+  // 点击步骤：滚动到该步骤的执行过程
+  onSelectStep?: (stepId: string) => void;
+  // 历次修订：可切换查看旧版本，并与前一版本对比
+  revisions?: PlanRevision[];
+  // 计划审阅：pending 时展示编辑器，批准后开始执行
+  review?: 'pending' | 'approved';
+  onApprove?: (plan: Plan) => void;
+  // 只能审阅进行中的运行；运行结束后不能再批准
+  canReview?: boolean;
 }
 
-export function PlanCard({ plan }: PlanCardProps) {
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+};
+
+const STATUS_LABELS: Record<PlanStep['status'], string> = {
+  pending: '待执行',
+  in_progress: '进行中',
+  done: '完成',
+  failed: '失败',
+  skipped: '跳过',
+};
+
+export function PlanCard({
+  plan,
+  stepRuns = {},
+  stepActivity = {},
+  onSelectStep,
+  revisions = [],
+  review,
+  onApprove,
+  canReview = true,
+}: PlanCardProps) {
+  const [expandedSteps, setExpandedSteps] = useState<Set<string>>(new Set());
+  // 正在查看的修订（null 表示最新版本，新修订到达时自动跟随）
+  const [revisionIndex, setRevisionIndex] = useState<number | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+
+  const latestIndex = revisions.length - 1;
+  const viewingIndex = revisionIndex ?? latestIndex;
+  const isLatest = viewingIndex === latestIndex;
+  const viewingRevision = revisions[viewingIndex];
+  // 旧版本只展示计划本身，执行情况属于最新版本
+  const displayedPlan = isLatest ? plan : viewingRevision.plan;
+  const runs = isLatest ? stepRuns : {};
+  const activityByStep = isLatest ? stepActivity : {};
+
+  const toggleStep = (stepId: string) => {
+    setExpandedSteps(prev => {
+      const next = new Set(prev);
+      if (next.has(stepId)) {
+        next.delete(stepId);
+      } else {
+        next.add(stepId);
+      }
+      return next;
+    });
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'done': return <CheckCircle className="h-4 w-4 text-primary" />;
@@ -26,57 +106,232 @@ export function PlanCard({ plan }: PlanCardProps) {
         <div className="flex items-center gap-2 text-sm font-medium">
           <FileText className="h-4 w-4 text-primary" />
           <span>计划</span>
+          {review === 'pending' && <Badge variant="secondary">待审阅</Badge>}
+          {review === 'approved' && <Badge variant="outline">已批准</Badge>}
+          {revisions.length > 1 && review !== 'pending' && (
+            <div className="ml-auto flex items-center gap-2 text-xs font-normal text-muted-foreground">
+              <History className="h-3.5 w-3.5" />
+              <input
+                type="range"
+                className="w-24 accent-primary"
+                min={0}
+                max={latestIndex}
+                value={viewingIndex}
+                onChange={(e) => {
+                  const index = Number(e.target.value);
+                  setRevisionIndex(index === latestIndex ? null : index);
+                }}
+                title="切换计划版本"
+              />
+              <span>版本 {viewingIndex + 1}/{revisions.length}</span>
+              <Button
+                variant={showDiff ? 'default' : 'ghost'}
+                size="sm"
+                className="h-6 gap-1 px-2 text-xs"
+                onClick={() => setShowDiff(!showDiff)}
+                title="与上一版本对比"
+              >
+                <GitCompare className="h-3 w-3" />
+                对比
+              </Button>
+            </div>
+          )}
         </div>
+        {revisions.length > 1 && review !== 'pending' && viewingRevision && (
+          <div className="text-xs text-muted-foreground">
+            修订于 {new Date(viewingRevision.timestamp).toLocaleString()}
+            {viewingRevision.edited && ' · 用户编辑'}
+          </div>
+        )}
       </CardHeader>
       
       <CardContent className="p-3 pt-0 space-y-3">
         <div className="text-sm">
           <span className="text-xs font-medium text-muted-foreground">目标：</span>
-          <span className="ml-1">{plan.goal}</span>
+          <span className="ml-1">{displayedPlan.goal}</span>
         </div>
 
-        <div className="space-y-2">
-          {plan.steps.map((step, index) => (
-            <div 
-              key={step.id} 
-              className="flex gap-2 p-2 rounded-md border"
-            >
-              <div className="flex-shrink-0 w-6 h-6 rounded-full bg-background border flex items-center justify-center text-xs font-medium">
-                {index + 1}
-              </div>
-              <div className="flex-1 min-w-0">
-                <div className="text-sm">{step.description}</div>
-                {step.requiredTools && step.requiredTools.length > 0 && (
-                  <div className="flex flex-wrap gap-1 mt-1">
-                    {step.requiredTools.map(tool => (
-                      <Badge key={tool} variant="outline" className="text-xs flex items-center gap-1">
-                        <Wrench className="h-3 w-3" />
-                        {tool}
-                      </Badge>
-                    ))}
+        {review === 'pending' && onApprove ? (
+          <PlanEditor plan={plan} onApprove={onApprove} disabled={!canReview} />
+        ) : showDiff && revisions.length > 1 ? (
+          viewingIndex > 0 ? (
+            <PlanDiffView diffs={diffPlans(revisions[viewingIndex - 1].plan, viewingRevision.plan)} />
+          ) : (
+            <div className="text-xs text-muted-foreground">这是第一个版本，没有可对比的上一版本</div>
+          )
+        ) : (
+          <div className="space-y-2">
+            {displayedPlan.steps.map((step, index) => {
+              const run = runs[step.id];
+              const activity = activityByStep[step.id] ?? [];
+              const canExpand = !!run || activity.length > 0;
+              const isExpanded = canExpand && expandedSteps.has(step.id);
+              return (
+                <div key={step.id} className="rounded-md border">
+                  <div className="flex gap-2 p-2">
+                    <div className="flex-shrink-0 w-6 h-6 rounded-full bg-background border flex items-center justify-center text-xs font-medium">
+                      {index + 1}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      {activity.length > 0 && onSelectStep ? (
+                        <button
+                          className="text-sm text-left hover:underline"
+                          onClick={() => onSelectStep(step.id)}
+                          title="定位到该步骤的执行过程"
+                        >
+                          {step.description}
+                        </button>
+                      ) : (
+                        <div className="text-sm">{step.description}</div>
+                      )}
+                      {step.requiredTools && step.requiredTools.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {step.requiredTools.map(tool => (
+                            <Badge key={tool} variant="outline" className="text-xs flex items-center gap-1">
+                              <Wrench className="h-3 w-3" />
+                              {tool}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {step.result && (
+                        <div className="mt-1 text-xs text-muted-foreground">
+                          <span className="font-medium">结果：</span>
+                          <span className="ml-1">{step.result.slice(0, 100)}...</span>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex-shrink-0 h-fit flex items-center gap-1">
+                      {run?.duration !== undefined && (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          {formatDuration(run.duration)}
+                        </span>
+                      )}
+                      {getStatusIcon(step.status)}
+                      {canExpand && (
+                        <button
+                          className="p-0.5 rounded hover:bg-muted"
+                          onClick={() => toggleStep(step.id)}
+                          title={isExpanded ? '收起执行过程' : '展开执行过程'}
+                        >
+                          <ChevronRight className={cn("h-4 w-4 transition-transform", isExpanded && "rotate-90")} />
+                        </button>
+                      )}
+                    </div>
                   </div>
-                )}
-                {step.result && (
-                  <div className="mt-1 text-xs text-muted-foreground">
-                    <span className="font-medium">结果：</span>
-                    <span className="ml-1">{step.result.slice(0, 100)}...</span>
-                  </div>
-                )}
-              </div>
-              <div className="flex-shrink-0 h-fit flex items-center justify-center">
-                {getStatusIcon(step.status)}
-              </div>
-            </div>
-          ))}
-        </div>
+                  {isExpanded && <StepActivity activity={activity} run={run} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
 
-        {plan.reasoning && (
+        {displayedPlan.reasoning && (
           <div className="text-xs bg-muted p-2 rounded-md">
             <span className="font-medium text-muted-foreground">推理：</span>
-            <span className="ml-1">{plan.reasoning}</span>
+            <span className="ml-1">{displayedPlan.reasoning}</span>
           </div>
         )}
       </CardContent>
     </Card>
   );
 }
+
+// ============================================================================
+// 步骤执行过程
+// ============================================================================
+
+function StepActivity({ activity, run }: { activity: ChatItem[]; run?: PlanStepRun }) {
+  return (
+    <div className="border-t px-3 py-2 space-y-1.5 text-xs">
+      {activity.length === 0 && (
+        <div className="text-muted-foreground">该步骤没有思考或工具调用</div>
+      )}
+      {activity.map(item => (
+        <div key={item.id} className="flex items-start gap-2">
+          {item.type === 'thought' && <Brain className="h-3 w-3 mt-0.5 flex-shrink-0 text-accent" />}
+          {item.type === 'tool_call' && <Wrench className="h-3 w-3 mt-0.5 flex-shrink-0 text-muted-foreground" />}
+          {item.type === 'normal_message' && <MessageSquare className="h-3 w-3 mt-0.5 flex-shrink-0 text-muted-foreground" />}
+          {item.type === 'artifact' && <Paperclip className="h-3 w-3 mt-0.5 flex-shrink-0 text-muted-foreground" />}
+          <div className="flex-1 min-w-0 text-muted-foreground line-clamp-2">
+            {item.type === 'tool_call' ? (
+              <>
+                <span className="font-mono text-foreground">{item.toolName || item.content}</span>
+                <span className="ml-2">
+                  {item.success === undefined ? (item.isCancelled ? '已取消' : '运行中') : item.success ? '完成' : '失败'}
+                  {item.duration !== undefined && ` · ${formatDuration(item.duration)}`}
+                </span>
+              </>
+            ) : item.type === 'artifact' ? (
+              `产出 ${item.artifacts?.length ?? 0} 个文件`
+            ) : (
+              item.content
+            )}
+          </div>
+        </div>
+      ))}
+      {run?.result && (
+        <div className="pt-1">
+          <span className="font-medium text-muted-foreground">结果：</span>
+          <span className="whitespace-pre-wrap break-words">{run.result}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// 版本对比
+// ============================================================================
+
+const DIFF_STYLES: Record<PlanStepDiff['change'], string> = {
+  added: 'border-green-500/40 bg-green-500/10',
+  removed: 'border-destructive/40 bg-destructive/10',
+  modified: 'border-yellow-500/40 bg-yellow-500/10',
+  unchanged: '',
+};
+
+const DIFF_LABELS: Record<PlanStepDiff['change'], string> = {
+  added: '新增',
+  removed: '删除',
+  modified: '修改',
+  unchanged: '',
+};
+
+function PlanDiffView({ diffs }: { diffs: PlanStepDiff[] }) {
+  return (
+    <div className="space-y-2">
+      {diffs.map(diff => (
+        <div
+          key={`${diff.change}_${diff.step.id}`}
+          className={cn("p-2 rounded-md border text-sm", DIFF_STYLES[diff.change])}
+        >
+          <div className="flex items-start gap-2">
+            <div className={cn("flex-1 min-w-0", diff.change === 'removed' && "line-through text-muted-foreground")}>
+              {diff.reworded && diff.previous && (
+                <div className="line-through text-muted-foreground">{diff.previous.description}</div>
+              )}
+              <div>{diff.step.description}</div>
+            </div>
+            {diff.change !== 'unchanged' && (
+              <Badge variant="outline" className="flex-shrink-0 text-xs">{DIFF_LABELS[diff.change]}</Badge>
+            )}
+          </div>
+          {(diff.statusChanged || diff.toolsChanged) && diff.previous && (
+            <div className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+              {diff.statusChanged && (
+                <div>状态：{STATUS_LABELS[diff.previous.status]} → {STATUS_LABELS[diff.step.status]}</div>
+              )}
+              {diff.toolsChanged && (
+                <div>
+                  工具：{diff.previous.requiredTools?.join(', ') || '无'} → {diff.step.requiredTools?.join(', ') || '无'}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * PlanEditor - 执行前审阅计划
+ * 可改写、调整顺序、删除和新增步骤，修改所需工具；批准后以编辑后的计划开始执行
+ * 审阅期间后端给出新版计划时，未做修改则同步为新版，已有修改则保留修改
+ */
+
+import { useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { Plan, PlanStep } from '../types/events';
+
+interface PlanEditorProps {
+  plan: Plan;
+  onApprove: (plan: Plan) => void;
+  // 运行已结束时不能再批准
+  disabled?: boolean;
+}
+
+interface StepDraft {
+  step: PlanStep;
+  // 所需工具，逗号分隔
+  tools: string;
+}
+
+function toDrafts(plan: Plan): StepDraft[] {
+  return plan.steps.map(step => ({ step, tools: (step.requiredTools ?? []).join(', ') }));
+}
+
+function parseTools(value: string): string[] {
+  return value.split(/[,，]/).map(tool => tool.trim()).filter(Boolean);
+}
+
+export function PlanEditor({ plan, onApprove, disabled = false }: PlanEditorProps) {
+  const [drafts, setDrafts] = useState<StepDraft[]>(() => toDrafts(plan));
+  // drafts 基于的计划，以及之后是否做过修改
+  const [draftPlan, setDraftPlan] = useState(plan);
+  const [edited, setEdited] = useState(false);
+
+  if (plan !== draftPlan) {
+    setDraftPlan(plan);
+    if (!edited) setDrafts(toDrafts(plan));
+  }
+
+  const editDrafts = (update: (prev: StepDraft[]) => StepDraft[]) => {
+    setEdited(true);
+    setDrafts(update);
+  };
+
+  const updateDraft = (index: number, update: (draft: StepDraft) => StepDraft) => {
+    editDrafts(prev => prev.map((draft, i) => i === index ? update(draft) : draft));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    editDrafts(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addStep = () => {
+    editDrafts(prev => [
+      ...prev,
+      { step: { id: `step_${crypto.randomUUID()}`, description: '', status: 'pending' }, tools: '' },
+    ]);
+  };
+
+  const handleApprove = () => {
+    onApprove({
+      ...plan,
+      steps: drafts.map(({ step, tools }) => {
+        const requiredTools = parseTools(tools);
+        return {
+          ...step,
+          description: step.description.trim(),
+          requiredTools: requiredTools.length > 0 ? requiredTools : undefined,
+        };
+      }),
+    });
+  };
+
+  const isValid = drafts.length > 0 && drafts.every(draft => draft.step.description.trim());
+
+  return (
+    <div className="space-y-2">
+      {drafts.map((draft, index) => (
+        <div key={draft.step.id} className="flex gap-2 p-2 rounded-md border">
+          <div className="flex-shrink-0 w-6 h-6 rounded-full bg-background border flex items-center justify-center text-xs font-medium">
+            {index + 1}
+          </div>
+          <div className="flex-1 min-w-0 space-y-1">
+            <textarea
+              className="w-full min-h-[36px] px-2 py-1 text-sm bg-background border border-input rounded-md resize-y focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              value={draft.step.description}
+              onChange={(e) => updateDraft(index, d => ({ ...d, step: { ...d.step, description: e.target.value } }))}
+              placeholder="步骤描述"
+              rows={1}
+            />
+            <Input
+              className="h-7 text-xs"
+              value={draft.tools}
+              onChange={(e) => updateDraft(index, d => ({ ...d, tools: e.target.value }))}
+              placeholder="所需工具（逗号分隔，可留空）"
+            />
+          </div>
+          <div className="flex-shrink-0 flex flex-col gap-0.5">
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => moveStep(index, -1)} disabled={index === 0} title="上移">
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => moveStep(index, 1)} disabled={index === drafts.length - 1} title="下移">
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => editDrafts(prev => prev.filter((_, i) => i !== index))}
+              title="删除步骤"
+            >
+              <Trash2 className="h-3 w-3 text-destructive" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={addStep}>
+          <Plus className="h-3 w-3" />
+          添加步骤
+        </Button>
+        <span className="flex-1 text-xs text-muted-foreground">
+          {disabled ? '运行已结束，无法批准' : '计划批准后才会开始执行'}
+        </span>
+        <Button size="sm" className="h-7 gap-1 text-xs" onClick={handleApprove} disabled={disabled || !isValid}>
+          <Play className="h-3 w-3" />
+          批准并执行
+        </Button>
+      </div>
+    </div>
+  );
+}
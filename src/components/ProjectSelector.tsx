@@ -4,7 +4,9 @@
  */
 
 import { useState, useEffect } from 'react';
-import { getProjects, getProject, deleteProject, type ProjectInfo, type StoredMessage } from '../services/sseClient';
+import { getProjects, getProject, deleteProject, type ProjectInfo, type ConversationEvent } from '../services/sseClient';
+import { describeApiError, type ApiError } from '../services/apiError';
+import { ApiErrorNotice } from './ApiErrorNotice';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -17,7 +19,7 @@ import { Folder, ChevronDown, RefreshCw, Trash2, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ProjectSelectorProps {
-  onSelectProject: (tree: unknown, projectId: string, projectName: string, conversation?: StoredMessage[]) => void;
+  onSelectProject: (tree: unknown, projectId: string, projectName: string, conversation?: ConversationEvent[]) => void;
   currentProjectId?: string;
 }
 
@@ -26,13 +28,23 @@ export function ProjectSelector({ onSelectProject, currentProjectId }: ProjectSe
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingProjectId, setLoadingProjectId] = useState<string | null>(null);
+  // Project list failed to load
+  const [listError, setListError] = useState<ApiError | null>(null);
+  // Opening / deleting a single project failed
+  const [actionError, setActionError] = useState<{ id: string; message: string } | null>(null);
 
   // Load project list
   const loadProjects = async () => {
     setIsLoading(true);
+    setListError(null);
+    setActionError(null);
     try {
-      const list = await getProjects();
-      setProjects(list);
+      const result = await getProjects();
+      if (result.ok) {
+        setProjects(result.data);
+      } else {
+        setListError(result.error);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -48,14 +60,17 @@ export function ProjectSelector({ onSelectProject, currentProjectId }: ProjectSe
   // Select project
   const handleSelectProject = async (project: ProjectInfo) => {
     setLoadingProjectId(project.id);
-    try {
-      const detail = await getProject(project.id);
-      if (detail && detail.tree) {
-        onSelectProject(detail.tree, project.id, project.name, detail.conversation);
-        setIsOpen(false);
-      }
-    } finally {
-      setLoadingProjectId(null);
+    setActionError(null);
+    const result = await getProject(project.id);
+    setLoadingProjectId(null);
+
+    if (!result.ok) {
+      setActionError({ id: project.id, message: `打开失败：${describeApiError(result.error)}` });
+    } else if (!result.data.tree) {
+      setActionError({ id: project.id, message: '项目没有可预览的文件' });
+    } else {
+      onSelectProject(result.data.tree, project.id, project.name, result.data.conversation);
+      setIsOpen(false);
     }
   };
 
@@ -64,9 +79,12 @@ export function ProjectSelector({ onSelectProject, currentProjectId }: ProjectSe
     e.stopPropagation();
     if (!confirm('确定要删除这个项目吗？')) return;
 
+    setActionError(null);
     const result = await deleteProject(projectId);
-    if (result.success) {
+    if (result.ok) {
       setProjects(prev => prev.filter(p => p.id !== projectId));
+    } else {
+      setActionError({ id: projectId, message: `删除失败：${describeApiError(result.error)}` });
     }
   };
 
@@ -120,6 +138,8 @@ export function ProjectSelector({ onSelectProject, currentProjectId }: ProjectSe
         <ScrollArea className="h-[300px]">
           {isLoading && projects.length === 0 ? (
              <div className="p-4 text-center text-xs text-muted-foreground">加载中...</div>
+          ) : listError ? (
+            <ApiErrorNotice error={listError} onRetry={loadProjects} retrying={isLoading} />
           ) : projects.length === 0 ? (
             <div className="p-4 text-center text-xs text-muted-foreground">暂无保存的项目</div>
           ) : (
@@ -144,6 +164,11 @@ export function ProjectSelector({ onSelectProject, currentProjectId }: ProjectSe
                       <Clock className="h-3 w-3" />
                       {formatDate(project.updatedAt)}
                     </span>
+                    {actionError?.id === project.id && (
+                      <span className="text-[10px] text-destructive truncate" title={actionError.message}>
+                        {actionError.message}
+                      </span>
+                    )}
                   </div>
                   
                   <Button
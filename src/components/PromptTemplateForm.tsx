@@ -0,0 +1,92 @@
+/**
+ * PromptTemplateForm - 填写模板变量
+ * 选择含 {{变量}} 的模板后弹出，填写完成后将替换后的内容插入输入框
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { extractTemplateVariables, fillTemplate, type PromptTemplate } from '@/lib/usePromptTemplateStore';
+
+interface PromptTemplateFormProps {
+  // 待填写的模板，null 时关闭
+  template: PromptTemplate | null;
+  onClose: () => void;
+  onInsert: (text: string) => void;
+}
+
+interface VariableFieldsProps {
+  template: PromptTemplate;
+  onCancel: () => void;
+  onInsert: (text: string) => void;
+}
+
+function VariableFields({ template, onCancel, onInsert }: VariableFieldsProps) {
+  const variables = extractTemplateVariables(template.content);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const preview = fillTemplate(template.content, values);
+
+  return (
+    <form
+      className="space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onInsert(preview);
+      }}
+    >
+      {variables.map((name, index) => (
+        <label key={name} className="block space-y-1">
+          <span className="text-xs text-muted-foreground">{name}</span>
+          <Input
+            className="h-8 text-sm"
+            value={values[name] ?? ''}
+            onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+            autoFocus={index === 0}
+          />
+        </label>
+      ))}
+      <div className="rounded-md border bg-muted/40 p-2 text-xs whitespace-pre-wrap break-words max-h-[160px] overflow-y-auto">
+        {preview}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          取消
+        </Button>
+        <Button type="submit" size="sm">
+          插入
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export function PromptTemplateForm({ template, onClose, onInsert }: PromptTemplateFormProps) {
+  return (
+    <Dialog open={template !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{template?.title}</DialogTitle>
+          <DialogDescription>填写模板变量后插入输入框</DialogDescription>
+        </DialogHeader>
+        {template && (
+          <VariableFields
+            key={template.id}
+            template={template}
+            onCancel={onClose}
+            onInsert={(text) => {
+              onInsert(text);
+              onClose();
+            }}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,319 @@
+/**
+ * PromptTemplateLibrary - 提示词模板库管理弹窗
+ * 新建、编辑、删除模板，按模式 / 标签 / 关键词筛选，支持以 JSON 导入导出
+ */
+
+import { useRef, useState } from 'react';
+import { Plus, Pencil, Trash2, Download, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  usePromptTemplateStore,
+  extractTemplateVariables,
+  isPromptTemplateFile,
+  type PromptTemplate,
+  type PromptTemplateDraft,
+} from '@/lib/usePromptTemplateStore';
+import type { RunMode } from '@/lib/useSettingsStore';
+import { cn, downloadJSON } from '@/lib/utils';
+
+interface PromptTemplateLibraryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 打开时筛选的模式，也是新建模板的默认模式
+  mode?: RunMode;
+}
+
+const MODE_OPTIONS: { mode: RunMode; label: string }[] = [
+  { mode: 'react', label: '推理' },
+  { mode: 'planner', label: '规划' },
+  { mode: 'coding', label: '编程' },
+];
+
+interface TemplateDraft {
+  id?: string;
+  title: string;
+  content: string;
+  modes: RunMode[];
+  // 逗号分隔的标签
+  tags: string;
+}
+
+function toDraft(template: PromptTemplate): TemplateDraft {
+  return {
+    id: template.id,
+    title: template.title,
+    content: template.content,
+    modes: template.modes,
+    tags: template.tags.join(', '),
+  };
+}
+
+function fromDraft(draft: TemplateDraft): PromptTemplateDraft {
+  return {
+    title: draft.title.trim(),
+    content: draft.content.trim(),
+    modes: draft.modes,
+    tags: [...new Set(draft.tags.split(/[,，]/).map(tag => tag.trim()).filter(Boolean))],
+  };
+}
+
+function formatModes(modes: RunMode[]): string {
+  if (modes.length === 0) return '全部模式';
+  return MODE_OPTIONS.filter(o => modes.includes(o.mode)).map(o => o.label).join(' / ');
+}
+
+interface TemplateEditorProps {
+  draft: TemplateDraft;
+  onChange: (draft: TemplateDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+function TemplateEditor({ draft, onChange, onSave, onCancel }: TemplateEditorProps) {
+  const variables = extractTemplateVariables(draft.content);
+  const isValid = draft.title.trim() && draft.content.trim();
+
+  const toggleMode = (mode: RunMode) => {
+    onChange({
+      ...draft,
+      modes: draft.modes.includes(mode) ? draft.modes.filter(m => m !== mode) : [...draft.modes, mode],
+    });
+  };
+
+  return (
+    <div className="space-y-2 p-3 rounded-md border">
+      <Input
+        className="h-8 text-sm"
+        value={draft.title}
+        onChange={(e) => onChange({ ...draft, title: e.target.value })}
+        placeholder="模板名称"
+        autoFocus
+      />
+      <textarea
+        className="w-full min-h-[80px] max-h-[200px] px-3 py-2 text-sm bg-background border border-input rounded-md resize-y focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        value={draft.content}
+        onChange={(e) => onChange({ ...draft, content: e.target.value })}
+        placeholder="模板内容，用 {{变量名}} 标记需要填写的部分"
+      />
+      {variables.length > 0 && (
+        <div className="text-xs text-muted-foreground">变量：{variables.join('、')}</div>
+      )}
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-muted-foreground">适用模式</span>
+        {MODE_OPTIONS.map(({ mode, label }) => (
+          <Button
+            key={mode}
+            size="sm"
+            variant={draft.modes.includes(mode) ? 'default' : 'outline'}
+            className="h-6 px-2 text-xs"
+            onClick={() => toggleMode(mode)}
+          >
+            {label}
+          </Button>
+        ))}
+        <span className="text-muted-foreground">{draft.modes.length === 0 && '（不选为全部模式）'}</span>
+      </div>
+      <Input
+        className="h-8 text-xs"
+        value={draft.tags}
+        onChange={(e) => onChange({ ...draft, tags: e.target.value })}
+        placeholder="标签，用逗号分隔"
+      />
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          取消
+        </Button>
+        <Button size="sm" onClick={onSave} disabled={!isValid}>
+          保存
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function PromptTemplateLibrary({ open, onOpenChange, mode }: PromptTemplateLibraryProps) {
+  const { templates, addTemplate, updateTemplate, deleteTemplate, importTemplates, exportTemplates } = usePromptTemplateStore();
+  const [modeFilter, setModeFilter] = useState<RunMode | null>(mode ?? null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const tags = [...new Set(templates.flatMap(t => t.tags))].sort();
+  const keyword = search.trim().toLowerCase();
+  const filtered = templates.filter(t =>
+    (!modeFilter || t.modes.length === 0 || t.modes.includes(modeFilter))
+    && (!tagFilter || t.tags.includes(tagFilter))
+    && (!keyword || t.title.toLowerCase().includes(keyword) || t.content.toLowerCase().includes(keyword))
+  );
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (draft.id) {
+      updateTemplate(draft.id, fromDraft(draft));
+    } else {
+      addTemplate(fromDraft(draft));
+    }
+    setDraft(null);
+  };
+
+  const handleExport = () => {
+    downloadJSON(`prompt-templates-${Date.now()}.json`, exportTemplates());
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!isPromptTemplateFile(parsed)) {
+        setImportError('文件格式不正确');
+        return;
+      }
+      importTemplates(parsed);
+      setImportError(null);
+    } catch {
+      setImportError('无法解析 JSON 文件');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>提示词模板</DialogTitle>
+          <DialogDescription>模板保存在本地浏览器中，空会话的建议提示词也来自这里</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <Input
+              className="h-8 text-xs"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="搜索模板"
+            />
+            <Button
+              size="sm"
+              variant={modeFilter === null ? 'default' : 'ghost'}
+              className="h-7 px-2 text-xs"
+              onClick={() => setModeFilter(null)}
+            >
+              全部
+            </Button>
+            {MODE_OPTIONS.map(option => (
+              <Button
+                key={option.mode}
+                size="sm"
+                variant={modeFilter === option.mode ? 'default' : 'ghost'}
+                className="h-7 px-2 text-xs"
+                onClick={() => setModeFilter(option.mode)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 text-xs">
+              <span className="text-muted-foreground mr-1">标签</span>
+              {tags.map(tag => (
+                <button
+                  key={tag}
+                  type="button"
+                  className={cn(
+                    'px-2 py-0.5 rounded-full border',
+                    tagFilter === tag ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-muted'
+                  )}
+                  onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1 max-h-[300px] overflow-y-auto">
+            {filtered.length === 0 && (
+              <div className="p-4 text-center text-xs text-muted-foreground">没有匹配的模板</div>
+            )}
+            {filtered.map(template => (
+              <div key={template.id} className="flex items-start gap-2 rounded-md p-2 hover:bg-muted">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium truncate">{template.title}</span>
+                    <span className="text-xs text-muted-foreground flex-shrink-0">{formatModes(template.modes)}</span>
+                    {template.tags.map(tag => (
+                      <span key={tag} className="px-1.5 rounded-full border text-[10px] text-muted-foreground flex-shrink-0">
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">{template.content}</div>
+                </div>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDraft(toDraft(template))} title="编辑">
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deleteTemplate(template.id)} title="删除">
+                  <Trash2 className="h-3.5 w-3.5 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {draft && (
+            <TemplateEditor
+              draft={draft}
+              onChange={setDraft}
+              onSave={handleSave}
+              onCancel={() => setDraft(null)}
+            />
+          )}
+
+          {importError && <div className="text-xs text-destructive">{importError}</div>}
+
+          <div className="flex justify-between gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="gap-1"
+              onClick={() => setDraft({ title: '', content: '', modes: mode ? [mode] : [], tags: '' })}
+              disabled={draft !== null}
+            >
+              <Plus className="h-3.5 w-3.5" />
+              新建模板
+            </Button>
+            <div className="flex gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+              <Button variant="outline" size="sm" className="gap-1" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-3.5 w-3.5" />
+                导入
+              </Button>
+              <Button variant="outline" size="sm" className="gap-1" onClick={handleExport} disabled={templates.length === 0}>
+                <Download className="h-3.5 w-3.5" />
+                导出
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
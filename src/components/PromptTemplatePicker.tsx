@@ -0,0 +1,77 @@
+/**
+ * PromptTemplatePicker - 从模板库选择提示词插入输入框
+ * 列出当前模式可用的模板；含变量的模板先填写变量，也可打开模板库管理
+ */
+
+import { useState } from 'react';
+import { BookText, ChevronDown, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { PromptTemplateForm } from './PromptTemplateForm';
+import { PromptTemplateLibrary } from './PromptTemplateLibrary';
+import { usePromptTemplateSelection } from '../hooks/usePromptTemplateSelection';
+import { usePromptTemplateStore, getTemplatesForMode } from '@/lib/usePromptTemplateStore';
+import type { RunMode } from '@/lib/useSettingsStore';
+
+interface PromptTemplatePickerProps {
+  mode: RunMode;
+  onInsert: (text: string) => void;
+}
+
+export function PromptTemplatePicker({ mode, onInsert }: PromptTemplatePickerProps) {
+  const templates = usePromptTemplateStore(state => state.templates);
+  const available = getTemplatesForMode(templates, mode);
+  const { pendingTemplate, selectTemplate, closeTemplateForm } = usePromptTemplateSelection(onInsert);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 gap-1 px-2 text-xs text-muted-foreground"
+            title="插入提示词模板"
+          >
+            <BookText className="h-3 w-3" />
+            模板
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-[280px]">
+          <DropdownMenuLabel className="text-xs text-muted-foreground">
+            {available.length > 0 ? '选择模板' : '当前模式没有模板'}
+          </DropdownMenuLabel>
+          <div className="max-h-[280px] overflow-y-auto">
+            {available.map(template => (
+              <DropdownMenuItem
+                key={template.id}
+                className="flex-col items-start gap-0.5 text-xs"
+                onSelect={() => selectTemplate(template)}
+              >
+                <span className="font-medium">{template.title}</span>
+                <span className="w-full truncate text-muted-foreground">{template.content}</span>
+              </DropdownMenuItem>
+            ))}
+          </div>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="gap-2 text-xs" onSelect={() => setLibraryOpen(true)}>
+            <Settings2 className="h-3.5 w-3.5" />
+            管理模板库…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <PromptTemplateForm template={pendingTemplate} onClose={closeTemplateForm} onInsert={onInsert} />
+      {/* 每次打开重新挂载，筛选条件跟随当前模式 */}
+      {libraryOpen && <PromptTemplateLibrary open onOpenChange={setLibraryOpen} mode={mode} />}
+    </>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * QueuedMessages - 运行中排队等待发送的消息
+ * 当前运行结束后依次自动发送；发送前可修改或移除，队列暂停时可手动继续
+ */
+
+import { useState } from 'react';
+import { Clock, Pencil, X, Play, PauseCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { AttachmentList } from './AttachmentList';
+import type { QueuedMessage } from '@/lib/useChatStore';
+
+interface QueuedMessagesProps {
+  queue: QueuedMessage[];
+  paused: boolean;
+  onEdit?: (id: string, input: string) => void;
+  onRemove?: (id: string) => void;
+  onResume?: () => void;
+}
+
+interface QueuedBubbleProps {
+  message: QueuedMessage;
+  onEdit?: (id: string, input: string) => void;
+  onRemove?: (id: string) => void;
+}
+
+function QueuedBubble({ message, onEdit, onRemove }: QueuedBubbleProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (!draft?.trim()) return;
+    onEdit?.(message.id, draft.trim());
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <div className="flex w-full justify-end">
+        <Card className="w-[80%] p-3 space-y-2">
+          <textarea
+            className="w-full min-h-[60px] max-h-[200px] px-2 py-1.5 text-sm bg-background border border-input rounded-md resize-y focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSave();
+              } else if (e.key === 'Escape') {
+                setDraft(null);
+              }
+            }}
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setDraft(null)}>
+              取消
+            </Button>
+            <Button size="sm" className="h-7 text-xs" onClick={handleSave} disabled={!draft.trim()}>
+              保存
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group flex w-full items-start justify-end gap-1">
+      {onEdit && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 mt-1 opacity-0 group-hover:opacity-100 transition-opacity"
+          onClick={() => setDraft(message.input)}
+          title="修改"
+        >
+          <Pencil className="h-3.5 w-3.5 text-muted-foreground" />
+        </Button>
+      )}
+      {onRemove && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 mt-1 opacity-0 group-hover:opacity-100 transition-opacity"
+          onClick={() => onRemove(message.id)}
+          title="移除"
+        >
+          <X className="h-3.5 w-3.5 text-muted-foreground" />
+        </Button>
+      )}
+      <div className="flex flex-col items-end max-w-[80%]">
+        {message.attachments && <AttachmentList attachments={message.attachments} className="justify-end mb-1" />}
+        <Card className="p-3 border-dashed bg-primary/10">
+          <div className="text-sm whitespace-pre-wrap break-words">{message.input}</div>
+        </Card>
+        <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          排队中
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function QueuedMessages({ queue, paused, onEdit, onRemove, onResume }: QueuedMessagesProps) {
+  if (queue.length === 0) return null;
+
+  return (
+    <>
+      {paused && (
+        <div className="flex items-center gap-2 px-3 py-2 text-xs text-muted-foreground bg-muted/50 border border-dashed rounded-md">
+          <PauseCircle className="h-3 w-3" />
+          <span className="flex-1">上一次运行未正常结束，排队的 {queue.length} 条消息已暂停发送</span>
+          {onResume && (
+            <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-xs" onClick={onResume}>
+              <Play className="h-3 w-3" />
+              继续发送
+            </Button>
+          )}
+        </div>
+      )}
+      {queue.map(message => (
+        <QueuedBubble key={message.id} message={message} onEdit={onEdit} onRemove={onRemove} />
+      ))}
+    </>
+  );
+}
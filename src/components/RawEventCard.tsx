@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChevronRight, HelpCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface RawEventCardProps {
+  eventType: string;
+  raw: unknown;
+}
+
+/**
+ * 未知类型事件的通用卡片，折叠展示原始 JSON
+ */
+export function RawEventCard({ eventType, raw }: RawEventCardProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <Card className="overflow-hidden border-dashed">
+      <CardHeader
+        className="p-3 cursor-pointer hover:bg-secondary transition-colors"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <ChevronRight className={cn(
+              "h-4 w-4 transition-transform",
+              isExpanded && "rotate-90"
+            )} />
+            <HelpCircle className="h-4 w-4 text-muted-foreground" />
+            <span className="font-medium text-sm">{eventType}</span>
+          </div>
+          <Badge variant="outline">未知事件</Badge>
+        </div>
+      </CardHeader>
+
+      {isExpanded && (
+        <CardContent className="p-3 pt-0">
+          <pre className="text-xs bg-muted p-2 rounded-md overflow-x-auto">
+            {JSON.stringify(raw, null, 2)}
+          </pre>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
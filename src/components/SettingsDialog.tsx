@@ -0,0 +1,676 @@
+/**
+ * SettingsDialog - 应用设置弹窗
+ * 管理后端连接配置（新增、编辑、删除、切换）、运行停滞检测、工具审批策略、模型价格表与 SSE 录制/回放 Fixture
+ */
+
+import { useRef, useState } from 'react';
+import { Plus, Pencil, Trash2, Check, Circle, Download, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  useSettingsStore,
+  DEFAULT_IDLE_TIMEOUTS,
+  type ConnectionProfile,
+  type ModelPrice,
+  type RunMode,
+  type TransportKind,
+} from '@/lib/useSettingsStore';
+import { useFixtureStore, isFixtureFile, MAX_STREAM_FIXTURES, MAX_REST_FIXTURES } from '@/lib/useFixtureStore';
+import { useChatStore } from '@/lib/useChatStore';
+import { cn, downloadJSON } from '@/lib/utils';
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>设置</DialogTitle>
+          <DialogDescription>配置保存在本地浏览器中</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="connection">
+          <TabsList>
+            <TabsTrigger value="connection">后端连接</TabsTrigger>
+            <TabsTrigger value="run">运行</TabsTrigger>
+            <TabsTrigger value="approval">工具审批</TabsTrigger>
+            <TabsTrigger value="prices">模型价格</TabsTrigger>
+            <TabsTrigger value="fixtures">录制与回放</TabsTrigger>
+          </TabsList>
+          <TabsContent value="connection">
+            <ConnectionProfilesPanel />
+          </TabsContent>
+          <TabsContent value="run">
+            <RunSettingsPanel />
+          </TabsContent>
+          <TabsContent value="approval">
+            <ToolApprovalPanel />
+          </TabsContent>
+          <TabsContent value="prices">
+            <ModelPricesPanel />
+          </TabsContent>
+          <TabsContent value="fixtures">
+            <FixturesPanel />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ============================================================================
+// 连接配置面板
+// ============================================================================
+
+interface ProfileDraft {
+  id?: string;
+  name: string;
+  baseUrl: string;
+  authHeaderName: string;
+  authHeaderValue: string;
+  timeout: string;
+  transport: TransportKind;
+  mock: boolean;
+}
+
+const EMPTY_DRAFT: ProfileDraft = {
+  name: '',
+  baseUrl: 'http://',
+  authHeaderName: 'Authorization',
+  authHeaderValue: '',
+  timeout: '30000',
+  transport: 'sse',
+  mock: false,
+};
+
+const TRANSPORT_OPTIONS: { value: TransportKind; label: string }[] = [
+  { value: 'sse', label: 'SSE' },
+  { value: 'websocket', label: 'WebSocket（双向）' },
+];
+
+function toDraft(profile: ConnectionProfile): ProfileDraft {
+  return {
+    id: profile.id,
+    name: profile.name,
+    baseUrl: profile.baseUrl,
+    authHeaderName: profile.authHeader?.name ?? 'Authorization',
+    authHeaderValue: profile.authHeader?.value ?? '',
+    timeout: String(profile.timeout),
+    transport: profile.transport ?? 'sse',
+    mock: profile.mock ?? false,
+  };
+}
+
+function ConnectionProfilesPanel() {
+  const { profiles, activeProfileId, setActiveProfile, saveProfile, deleteProfile } = useSettingsStore();
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (patch: Partial<ProfileDraft>) => {
+    setDraft(prev => prev ? { ...prev, ...patch } : prev);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+
+    const name = draft.name.trim();
+    const baseUrl = draft.baseUrl.trim();
+    const timeout = Number(draft.timeout);
+
+    if (!name) {
+      setError('请输入名称');
+      return;
+    }
+    try {
+      new URL(baseUrl);
+    } catch {
+      setError('后端地址格式不正确');
+      return;
+    }
+    if (!Number.isFinite(timeout) || timeout <= 0) {
+      setError('超时时间必须为正数（毫秒）');
+      return;
+    }
+
+    const authHeaderName = draft.authHeaderName.trim();
+    saveProfile({
+      id: draft.id ?? `profile_${Date.now()}`,
+      name,
+      baseUrl,
+      timeout,
+      transport: draft.transport === 'websocket' ? 'websocket' : undefined,
+      mock: draft.mock || undefined,
+      authHeader: authHeaderName && draft.authHeaderValue
+        ? { name: authHeaderName, value: draft.authHeaderValue }
+        : undefined,
+    });
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleDelete = (id: string) => {
+    if (!confirm('确定要删除这个连接配置吗？')) return;
+    deleteProfile(id);
+    if (draft?.id === id) setDraft(null);
+  };
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="space-y-1 max-h-[240px] overflow-y-auto">
+        {profiles.map(profile => (
+          <div
+            key={profile.id}
+            className={cn(
+              "group flex items-center gap-2 p-2 rounded-md border cursor-pointer transition-colors",
+              profile.id === activeProfileId ? "border-primary bg-primary/10" : "hover:bg-muted"
+            )}
+            onClick={() => setActiveProfile(profile.id)}
+          >
+            <div className="w-4 flex-shrink-0">
+              {profile.id === activeProfileId && <Check className="h-4 w-4 text-primary" />}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium truncate">{profile.name}</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {profile.mock ? '离线回放录制的 Fixture' : `${profile.baseUrl} · 超时 ${profile.timeout}ms`}
+                {!profile.mock && profile.transport === 'websocket' ? ' · WebSocket' : ''}
+                {profile.authHeader ? ' · 已配置鉴权' : ''}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="编辑"
+              onClick={(e) => {
+                e.stopPropagation();
+                setDraft(toDraft(profile));
+                setError(null);
+              }}
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 hover:text-destructive"
+              title="删除"
+              disabled={profiles.length <= 1}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete(profile.id);
+              }}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {draft ? (
+        <div className="space-y-2 p-3 rounded-md border bg-muted/30">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">名称</span>
+              <Input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} placeholder="例如：Staging" />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">超时（毫秒）</span>
+              <Input type="number" min={1} value={draft.timeout} onChange={(e) => updateDraft({ timeout: e.target.value })} />
+            </label>
+          </div>
+          <label className="block space-y-1">
+            <span className="text-xs text-muted-foreground">后端地址</span>
+            <Input value={draft.baseUrl} onChange={(e) => updateDraft({ baseUrl: e.target.value })} placeholder="http://localhost:3002" />
+          </label>
+          <div className="grid grid-cols-[1fr_2fr] gap-2">
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">鉴权请求头</span>
+              <Input value={draft.authHeaderName} onChange={(e) => updateDraft({ authHeaderName: e.target.value })} />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs text-muted-foreground">值（可选）</span>
+              <Input
+                type="password"
+                value={draft.authHeaderValue}
+                onChange={(e) => updateDraft({ authHeaderValue: e.target.value })}
+                placeholder="Bearer ..."
+              />
+            </label>
+          </div>
+          <div className="space-y-1">
+            <span className="text-xs text-muted-foreground">运行传输方式</span>
+            <div className="flex gap-2">
+              {TRANSPORT_OPTIONS.map(option => (
+                <Button
+                  key={option.value}
+                  type="button"
+                  variant={draft.transport === option.value ? 'secondary' : 'outline'}
+                  size="sm"
+                  className="h-8 text-xs"
+                  disabled={draft.mock}
+                  onClick={() => updateDraft({ transport: option.value })}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input
+              type="checkbox"
+              checked={draft.mock}
+              onChange={(e) => updateDraft({ mock: e.target.checked })}
+            />
+            离线 Mock（不访问网络，回放录制的 Fixture）
+          </label>
+          {error && <div className="text-xs text-destructive">{error}</div>}
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => { setDraft(null); setError(null); }}>
+              取消
+            </Button>
+            <Button size="sm" onClick={handleSave}>
+              保存
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setDraft({ ...EMPTY_DRAFT })}>
+          <Plus className="h-4 w-4" />
+          新增连接
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// 运行设置面板
+// ============================================================================
+
+const RUN_MODES: { mode: RunMode; label: string }[] = [
+  { mode: 'react', label: '推理模式' },
+  { mode: 'planner', label: '规划模式' },
+  { mode: 'coding', label: '编程模式' },
+];
+
+function RunSettingsPanel() {
+  const { idleTimeouts, setIdleTimeout, planReview, setPlanReview } = useSettingsStore();
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="text-xs text-muted-foreground">
+        空闲超时：流式运行超过该时间没有收到任何数据（包括心跳）时，提示停滞并可选择继续等待、重连或取消。设为 0 表示不检测。
+      </div>
+      {RUN_MODES.map(({ mode, label }) => (
+        <div key={mode} className="flex items-center gap-3">
+          <span className="w-20 text-sm">{label}</span>
+          <Input
+            type="number"
+            min={0}
+            className="w-32"
+            value={idleTimeouts[mode] / 1000}
+            onChange={(e) => setIdleTimeout(mode, Number(e.target.value) * 1000)}
+          />
+          <span className="text-xs text-muted-foreground">秒</span>
+          {idleTimeouts[mode] !== DEFAULT_IDLE_TIMEOUTS[mode] && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setIdleTimeout(mode, DEFAULT_IDLE_TIMEOUTS[mode])}
+            >
+              恢复默认（{DEFAULT_IDLE_TIMEOUTS[mode] / 1000} 秒）
+            </Button>
+          )}
+        </div>
+      ))}
+      <div className="border-t pt-3 space-y-1">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={planReview}
+            onChange={(e) => setPlanReview(e.target.checked)}
+          />
+          规划模式：执行前审阅计划
+        </label>
+        <div className="text-xs text-muted-foreground">
+          生成计划后暂停，可在计划卡片中改写、排序、增删步骤并修改所需工具，批准后才开始执行。
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// 工具审批面板
+// ============================================================================
+
+function ToolApprovalPanel() {
+  const { approvalTools, setToolApproval } = useSettingsStore();
+  const tools = useChatStore(state => state.tools);
+  const [newToolName, setNewToolName] = useState('');
+
+  // 当前后端提供的工具，加上策略中已有但当前后端未提供的工具
+  const toolNames = [
+    ...tools.map(t => t.name),
+    ...approvalTools.filter(name => !tools.some(t => t.name === name)),
+  ];
+
+  const handleAdd = () => {
+    const name = newToolName.trim();
+    if (!name) return;
+    setToolApproval(name, true);
+    setNewToolName('');
+  };
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="text-xs text-muted-foreground">
+        勾选的工具在执行前暂停，需要在工具卡片中批准（可修改参数）或拒绝后才会继续。
+      </div>
+      <div className="space-y-1 max-h-[300px] overflow-y-auto">
+        {toolNames.length === 0 && (
+          <div className="p-3 text-center text-xs text-muted-foreground">当前后端没有提供工具</div>
+        )}
+        {toolNames.map(name => {
+          const tool = tools.find(t => t.name === name);
+          return (
+            <label key={name} className="flex items-start gap-2 rounded-md p-2 hover:bg-muted">
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                checked={approvalTools.includes(name)}
+                onChange={(e) => setToolApproval(name, e.target.checked)}
+              />
+              <div className="min-w-0">
+                <div className="font-mono text-xs">{name}</div>
+                <div className="text-[11px] text-muted-foreground truncate">
+                  {tool ? tool.description : '当前后端未提供'}
+                </div>
+              </div>
+            </label>
+          );
+        })}
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8 text-xs"
+          value={newToolName}
+          onChange={(e) => setNewToolName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          placeholder="按名称添加工具（如编程模式内部工具）"
+        />
+        <Button size="sm" variant="outline" className="h-8 gap-1" onClick={handleAdd} disabled={!newToolName.trim()}>
+          <Plus className="h-3.5 w-3.5" />
+          添加
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// 模型价格面板
+// ============================================================================
+
+interface PriceDraft {
+  model: string;
+  prompt: string;
+  completion: string;
+  cached: string;
+}
+
+const EMPTY_PRICE_DRAFT: PriceDraft = { model: '', prompt: '', completion: '', cached: '' };
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'prompt', label: '输入' },
+  { key: 'completion', label: '输出' },
+  { key: 'cached', label: '缓存' },
+];
+
+function ModelPricesPanel() {
+  const { modelPrices, setModelPrice, deleteModelPrice } = useSettingsStore();
+  const [draft, setDraft] = useState<PriceDraft>(EMPTY_PRICE_DRAFT);
+
+  const isValid = draft.model.trim() && draft.prompt !== '' && draft.completion !== '';
+
+  const handleAdd = () => {
+    if (!isValid) return;
+    setModelPrice(draft.model.trim(), {
+      prompt: Number(draft.prompt),
+      completion: Number(draft.completion),
+      ...(draft.cached !== '' ? { cached: Number(draft.cached) } : {}),
+    });
+    setDraft(EMPTY_PRICE_DRAFT);
+  };
+
+  // 修改已有价格；缓存价格清空时按输入价格计
+  const handleChange = (model: string, key: keyof ModelPrice, value: string) => {
+    const price = { ...modelPrices[model] };
+    if (key === 'cached' && value === '') {
+      delete price.cached;
+    } else {
+      price[key] = Math.max(0, Number(value));
+    }
+    setModelPrice(model, price);
+  };
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="text-xs text-muted-foreground">
+        价格单位为美元 / 百万 token，用于估算每轮与每个会话的费用。模型名需与后端 usage 事件中的一致；有模型未配置价格时不显示费用。
+      </div>
+      <div className="space-y-1 max-h-[300px] overflow-y-auto">
+        {Object.keys(modelPrices).length === 0 && (
+          <div className="p-3 text-center text-xs text-muted-foreground">尚未配置模型价格</div>
+        )}
+        {Object.entries(modelPrices).map(([model, price]) => (
+          <div key={model} className="flex items-center gap-2 rounded-md p-2 hover:bg-muted">
+            <span className="flex-1 min-w-0 font-mono text-xs truncate" title={model}>{model}</span>
+            {PRICE_FIELDS.map(({ key, label }) => (
+              <Input
+                key={key}
+                type="number"
+                min={0}
+                step="any"
+                className="h-7 w-20 text-xs"
+                value={price[key] ?? ''}
+                onChange={(e) => handleChange(model, key, e.target.value)}
+                placeholder={key === 'cached' ? '同输入' : label}
+                title={label}
+              />
+            ))}
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => deleteModelPrice(model)} title="删除">
+              <Trash2 className="h-3.5 w-3.5 text-destructive" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8 text-xs"
+          value={draft.model}
+          onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+          placeholder="模型名"
+        />
+        {PRICE_FIELDS.map(({ key, label }) => (
+          <Input
+            key={key}
+            type="number"
+            min={0}
+            step="any"
+            className="h-8 w-20 text-xs"
+            value={draft[key]}
+            onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+            placeholder={key === 'cached' ? `${label}（可选）` : label}
+          />
+        ))}
+        <Button size="sm" variant="outline" className="h-8 gap-1" onClick={handleAdd} disabled={!isValid}>
+          <Plus className="h-3.5 w-3.5" />
+          添加
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// 录制与回放面板
+// ============================================================================
+
+const REPLAY_SPEEDS = [
+  { value: 1, label: '实时' },
+  { value: 2, label: '2x' },
+  { value: 5, label: '5x' },
+  { value: 10, label: '10x' },
+  { value: 0, label: '立即' },
+];
+
+function FixturesPanel() {
+  const {
+    isRecording,
+    replaySpeed,
+    streams,
+    rest,
+    saveError,
+    setRecording,
+    setReplaySpeed,
+    removeStream,
+    importFixtures,
+    exportFixtures,
+    clear,
+  } = useFixtureStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleExport = () => {
+    downloadJSON(`agent-fixtures-${Date.now()}.json`, exportFixtures());
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (!isFixtureFile(parsed)) {
+        setImportError('文件格式不正确');
+        return;
+      }
+      importFixtures(parsed);
+      setImportError(null);
+    } catch {
+      setImportError('无法解析 JSON 文件');
+    }
+  };
+
+  const getInputPreview = (request: Record<string, unknown>) => {
+    const value = request.input ?? request.goal ?? request.requirement;
+    return typeof value === 'string' ? value : '(无输入)';
+  };
+
+  return (
+    <div className="space-y-3 pt-2">
+      <div className="flex items-center justify-between gap-2 p-3 rounded-md border">
+        <div className="text-xs text-muted-foreground">
+          开启录制后，真实后端的流式事件与项目/会话接口响应会保存为 Fixture，
+          切换到 "离线 Mock" 连接即可回放。
+        </div>
+        <Button
+          size="sm"
+          variant={isRecording ? 'destructive' : 'outline'}
+          className="gap-2 flex-shrink-0"
+          onClick={() => setRecording(!isRecording)}
+        >
+          <Circle className={cn("h-3 w-3", isRecording && "fill-current animate-pulse")} />
+          {isRecording ? '停止录制' : '开始录制'}
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs">
+        <span className="text-muted-foreground">回放速度</span>
+        {REPLAY_SPEEDS.map(speed => (
+          <Button
+            key={speed.value}
+            size="sm"
+            variant={replaySpeed === speed.value ? 'default' : 'ghost'}
+            className="h-7 px-2 text-xs"
+            onClick={() => setReplaySpeed(speed.value)}
+          >
+            {speed.label}
+          </Button>
+        ))}
+      </div>
+
+      <div className="space-y-1 max-h-[200px] overflow-y-auto">
+        {streams.length === 0 ? (
+          <div className="p-4 text-center text-xs text-muted-foreground">暂无录制的流</div>
+        ) : (
+          [...streams].reverse().map(stream => (
+            <div key={stream.id} className="flex items-center gap-2 p-2 rounded-md border text-xs">
+              <span className="font-mono text-muted-foreground flex-shrink-0">{stream.path}</span>
+              <span className="flex-1 min-w-0 truncate">{getInputPreview(stream.request)}</span>
+              <span className="text-muted-foreground flex-shrink-0">
+                {stream.messages.length} 事件 · {((stream.messages[stream.messages.length - 1]?.offset ?? 0) / 1000).toFixed(1)}s
+              </span>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => removeStream(stream.id)} title="删除">
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+      <div className="text-xs text-muted-foreground">
+        已录制 {rest.length} 个 REST 响应（最多保留最近 {MAX_STREAM_FIXTURES} 个流与 {MAX_REST_FIXTURES} 个 REST 响应）
+      </div>
+
+      {saveError && <div className="text-xs text-destructive">{saveError}</div>}
+      {importError && <div className="text-xs text-destructive">{importError}</div>}
+
+      <div className="flex justify-between gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-destructive"
+          disabled={streams.length === 0 && rest.length === 0}
+          onClick={() => {
+            if (confirm('确定要清空所有 Fixture 吗？')) clear();
+          }}
+        >
+          清空
+        </Button>
+        <div className="flex gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            导入
+          </Button>
+          <Button variant="outline" size="sm" className="gap-2" onClick={handleExport}>
+            <Download className="h-4 w-4" />
+            导出
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * SlashCommandList - 斜杠命令列表
+ * 输入框的补全弹层（可高亮、点击选择）与未知命令时的帮助共用
+ */
+
+import { cn } from '@/lib/utils';
+import { formatSlashCommandUsage, type SlashCommand } from '@/lib/useSlashCommandStore';
+
+interface SlashCommandListProps {
+  commands: SlashCommand[];
+  activeIndex?: number;
+  onSelect?: (command: SlashCommand) => void;
+  className?: string;
+}
+
+export function SlashCommandList({ commands, activeIndex = -1, onSelect, className }: SlashCommandListProps) {
+  return (
+    <div className={cn('py-1', className)}>
+      {commands.map((command, index) => (
+        <div
+          key={command.name}
+          className={cn(
+            'flex items-baseline gap-3 px-3 py-1.5 text-xs',
+            onSelect && 'cursor-pointer hover:bg-muted',
+            index === activeIndex && 'bg-muted'
+          )}
+          // 在 textarea 失焦前选中，保持输入焦点
+          onMouseDown={onSelect && ((e) => {
+            e.preventDefault();
+            onSelect(command);
+          })}
+        >
+          <span className="font-mono text-foreground shrink-0">{formatSlashCommandUsage(command)}</span>
+          <span className="text-muted-foreground truncate">{command.description}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * StreamBenchmarkPanel - 流式渲染基准测试（事件诊断浮窗内）
+ * 选择一条录制的流按指定倍速回放到对应会话，回放结束后展示帧时间统计
+ */
+
+import { useState } from 'react';
+import { Gauge, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { useFixtureStore } from '@/lib/useFixtureStore';
+import { useChatStore } from '@/lib/useChatStore';
+import {
+  runStreamBenchmark,
+  getFixtureMode,
+  LONG_FRAME_THRESHOLD,
+  type StreamBenchmarkReport,
+} from '@/lib/streamBenchmark';
+
+const BENCHMARK_SPEEDS = [
+  { value: 1, label: '1x' },
+  { value: 10, label: '10x' },
+  { value: 0, label: '立即' },
+];
+
+const MODE_LABELS = {
+  react: '推理',
+  planner: '规划',
+  coding: '编程',
+};
+
+export function StreamBenchmarkPanel() {
+  const streams = useFixtureStore(state => state.streams);
+  const sessions = useChatStore(state => state.sessions);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [speed, setSpeed] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [report, setReport] = useState<StreamBenchmarkReport | null>(null);
+
+  const candidates = streams.filter(stream => getFixtureMode(stream));
+  const selected = candidates.find(stream => stream.id === selectedId) ?? candidates[candidates.length - 1];
+  const selectedMode = selected ? getFixtureMode(selected) : undefined;
+  const isSessionBusy = selectedMode ? sessions[selectedMode].isLoading : false;
+
+  const handleRun = async () => {
+    if (!selected || !selectedMode) return;
+    // 与切换会话相同：会话内容或待发送队列将被丢弃时先确认
+    const { messages, queue } = sessions[selectedMode];
+    const discarded = queue.length > 0 ? `，并丢弃 ${queue.length} 条待发送的消息` : '';
+    if ((messages.length > 0 || queue.length > 0)
+      && !confirm(`基准测试会清空当前${MODE_LABELS[selectedMode]}会话${discarded}，继续吗？`)) {
+      return;
+    }
+    setIsRunning(true);
+    setReport(null);
+    try {
+      setReport(await runStreamBenchmark(selected, speed));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (candidates.length === 0) {
+    return (
+      <div className="p-6 text-center text-xs text-muted-foreground">
+        暂无录制的流，请先在设置的 "录制与回放" 中录制
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 space-y-3 text-xs">
+      <div className="space-y-1 max-h-[160px] overflow-y-auto">
+        {[...candidates].reverse().map(stream => (
+          <button
+            key={stream.id}
+            className={cn(
+              "w-full flex items-center gap-2 p-2 rounded-md border text-left transition-colors",
+              stream.id === selected?.id ? "border-primary bg-primary/10" : "hover:bg-muted"
+            )}
+            onClick={() => setSelectedId(stream.id)}
+            disabled={isRunning}
+          >
+            <span className="font-mono text-muted-foreground flex-shrink-0">{stream.path}</span>
+            <span className="flex-1 min-w-0 truncate">{new Date(stream.recordedAt).toLocaleString()}</span>
+            <span className="text-muted-foreground flex-shrink-0">{stream.messages.length} 事件</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">倍速</span>
+        {BENCHMARK_SPEEDS.map(option => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={speed === option.value ? 'default' : 'ghost'}
+            className="h-7 px-2 text-xs"
+            onClick={() => setSpeed(option.value)}
+            disabled={isRunning}
+          >
+            {option.label}
+          </Button>
+        ))}
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 ml-auto gap-1.5 text-xs"
+          onClick={handleRun}
+          disabled={isRunning || isSessionBusy}
+          title={isSessionBusy ? '该模式正在运行，请等待结束' : undefined}
+        >
+          {isRunning ? <Loader2 className="h-3 w-3 animate-spin" /> : <Gauge className="h-3 w-3" />}
+          运行
+        </Button>
+      </div>
+
+      {report && (
+        <div className="grid grid-cols-3 gap-2 rounded-md border p-2">
+          <Metric label="事件 / chunk" value={`${report.events} / ${report.chunks}`} />
+          <Metric label="总时长" value={`${Math.round(report.duration)} ms`} />
+          <Metric label="帧数" value={String(report.frames)} />
+          <Metric label="平均帧" value={`${report.averageFrame.toFixed(1)} ms`} />
+          <Metric label="P95 帧" value={`${report.p95Frame.toFixed(1)} ms`} />
+          <Metric label="最长帧" value={`${report.maxFrame.toFixed(1)} ms`} />
+          <Metric
+            label={`卡顿帧 (>${LONG_FRAME_THRESHOLD}ms)`}
+            value={String(report.longFrames)}
+            className={report.longFrames > 0 ? 'text-destructive' : undefined}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Metric({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div>
+      <div className="text-[10px] text-muted-foreground">{label}</div>
+      <div className={cn("font-mono font-medium", className)}>{value}</div>
+    </div>
+  );
+}
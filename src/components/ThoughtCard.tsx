@@ -1,13 +1,15 @@
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { Brain, Loader2 } from 'lucide-react';
+import { Brain, Loader2, Ban } from 'lucide-react';
 import { useStreamingText } from '../hooks/useStreamingText';
 
 interface ThoughtCardProps {
   content: string;
   isStreaming?: boolean;
+  // 运行被取消时思考尚未结束
+  isCancelled?: boolean;
 }
 
-export function ThoughtCard({ content, isStreaming = false }: ThoughtCardProps) {
+export function ThoughtCard({ content, isStreaming = false, isCancelled = false }: ThoughtCardProps) {
   // 使用打字机效果显示流式内容
   const displayContent = useStreamingText(content, isStreaming, 15);
 
@@ -21,6 +23,12 @@ export function ThoughtCard({ content, isStreaming = false }: ThoughtCardProps)
             <Brain className="h-4 w-4 text-accent" />
           )}
           <span>思考中</span>
+          {isCancelled && (
+            <span className="flex items-center gap-1 text-xs font-normal text-muted-foreground">
+              <Ban className="h-3 w-3" />
+              已取消
+            </span>
+          )}
         </div>
       </CardHeader>
       <CardContent className="p-3 pt-0">
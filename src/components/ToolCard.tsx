@@ -1,8 +1,11 @@
 import { useState } from 'react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ChevronRight, Clock, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ChevronRight, Clock, CheckCircle2, XCircle, Loader2, Ban, ShieldAlert, ShieldCheck, Pencil, Check, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { ToolApproval, ToolApprovalDecision } from '../types/events';
 
 interface ToolCardProps {
   toolName: string;
@@ -12,9 +15,27 @@ interface ToolCardProps {
   duration?: number;
   timestamp?: number;
   toolCallId?: string;
+  // 运行被取消时工具仍未返回
+  cancelled?: boolean;
+  // 人工审批：待审批时展示批准 / 修改参数 / 拒绝
+  approval?: ToolApproval;
+  onApprovalDecision?: (decision: ToolApprovalDecision) => void;
+  // 只能审批进行中的运行；运行结束后审批按钮不可用
+  canApprove?: boolean;
 }
 
-export function ToolCard({ toolName, args, result, success, duration, timestamp }: ToolCardProps) {
+export function ToolCard({
+  toolName,
+  args,
+  result,
+  success,
+  duration,
+  timestamp,
+  cancelled,
+  approval,
+  onApprovalDecision,
+  canApprove = true,
+}: ToolCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
 
   const formatDuration = (ms: number) => {
@@ -27,8 +48,16 @@ export function ToolCard({ toolName, args, result, success, duration, timestamp
     return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false });
   };
 
-  const isRunning = success === undefined;
-  const statusText = isRunning ? '运行中' : (success ? '完成' : '失败');
+  const isCancelled = success === undefined && !!cancelled;
+  const isPendingApproval = approval?.status === 'pending' && success === undefined && !cancelled;
+  const isDenied = approval?.status === 'denied';
+  const isRunning = success === undefined && !cancelled && !isPendingApproval && !isDenied;
+  const statusText = isCancelled
+    ? '已取消'
+    : isPendingApproval ? '待审批'
+    : isDenied ? '已拒绝'
+    : isRunning ? '运行中'
+    : (success ? '完成' : '失败');
 
   return (
     <Card className="overflow-hidden">
@@ -44,10 +73,16 @@ export function ToolCard({ toolName, args, result, success, duration, timestamp
             )} />
             <span className="font-medium text-sm">{toolName}</span>
           </div>
-          <Badge variant={isRunning ? 'secondary' : success ? 'default' : 'destructive'} className="flex items-center gap-1">
+          <Badge
+            variant={isRunning || isCancelled || isPendingApproval ? 'secondary' : success && !isDenied ? 'default' : 'destructive'}
+            className="flex items-center gap-1"
+          >
             {isRunning && <Loader2 className="h-3 w-3 animate-spin" />}
-            {!isRunning && success && <CheckCircle2 className="h-3 w-3" />}
-            {!isRunning && !success && <XCircle className="h-3 w-3" />}
+            {isCancelled && <Ban className="h-3 w-3" />}
+            {isPendingApproval && <ShieldAlert className="h-3 w-3" />}
+            {isDenied && !isCancelled && <XCircle className="h-3 w-3" />}
+            {!isRunning && !isCancelled && !isPendingApproval && !isDenied && success && <CheckCircle2 className="h-3 w-3" />}
+            {!isRunning && !isCancelled && !isPendingApproval && !isDenied && !success && <XCircle className="h-3 w-3" />}
             {statusText}
           </Badge>
         </div>
@@ -61,9 +96,22 @@ export function ToolCard({ toolName, args, result, success, duration, timestamp
           {timestamp && (
             <span>{formatTime(timestamp)}</span>
           )}
+          {approval?.status === 'approved' && (
+            <span className="flex items-center gap-1">
+              <ShieldCheck className="h-3 w-3" />
+              已批准{approval.argsEdited && '（参数已修改）'}
+            </span>
+          )}
+          {isDenied && approval?.reason && (
+            <span className="truncate">拒绝原因：{approval.reason}</span>
+          )}
         </div>
       </CardHeader>
 
+      {isPendingApproval && onApprovalDecision && (
+        <ApprovalControls args={args} onDecision={onApprovalDecision} disabled={!canApprove} />
+      )}
+
       {isExpanded && (
         <CardContent className="p-3 pt-0 space-y-3">
           <div>
@@ -86,3 +134,111 @@ export function ToolCard({ toolName, args, result, success, duration, timestamp
     </Card>
   );
 }
+
+// ============================================================================
+// 审批操作
+// ============================================================================
+
+interface ApprovalControlsProps {
+  args: Record<string, unknown>;
+  onDecision: (decision: ToolApprovalDecision) => void;
+  disabled: boolean;
+}
+
+function ApprovalControls({ args, onDecision, disabled }: ApprovalControlsProps) {
+  const [editing, setEditing] = useState<'args' | 'deny' | null>(null);
+  const [argsDraft, setArgsDraft] = useState('');
+  const [argsError, setArgsError] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const startEditArgs = () => {
+    setArgsDraft(JSON.stringify(args, null, 2));
+    setArgsError(null);
+    setEditing('args');
+  };
+
+  const approveWithArgs = () => {
+    try {
+      const parsed: unknown = JSON.parse(argsDraft);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        setArgsError('参数必须是 JSON 对象');
+        return;
+      }
+      onDecision({ approved: true, args: parsed as Record<string, unknown> });
+    } catch {
+      setArgsError('JSON 格式不正确');
+    }
+  };
+
+  if (editing === 'args') {
+    return (
+      <div className="px-3 pb-3 space-y-2">
+        <textarea
+          className="w-full min-h-[100px] max-h-[240px] px-2 py-1.5 font-mono text-xs bg-background border border-input rounded-md resize-y focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          value={argsDraft}
+          onChange={(e) => {
+            setArgsDraft(e.target.value);
+            setArgsError(null);
+          }}
+          autoFocus
+        />
+        {argsError && <div className="text-xs text-destructive">{argsError}</div>}
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditing(null)}>
+            取消
+          </Button>
+          <Button size="sm" className="h-7 text-xs" onClick={approveWithArgs} disabled={disabled}>
+            以修改后的参数批准
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (editing === 'deny') {
+    return (
+      <div className="flex items-center gap-2 px-3 pb-3">
+        <Input
+          className="h-7 text-xs"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && onDecision({ approved: false, reason: reason.trim() || undefined })}
+          placeholder="拒绝原因（可选，会告知 agent）"
+          autoFocus
+        />
+        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditing(null)}>
+          取消
+        </Button>
+        <Button
+          variant="destructive"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => onDecision({ approved: false, reason: reason.trim() || undefined })}
+          disabled={disabled}
+        >
+          确认拒绝
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 px-3 pb-3">
+      <span className="flex-1 text-xs text-muted-foreground">
+        {disabled ? '运行已结束，无法审批' : '该工具需要审批后才会执行'}
+      </span>
+      <Button size="sm" className="h-7 gap-1 text-xs" onClick={() => onDecision({ approved: true })} disabled={disabled}>
+        <Check className="h-3 w-3" />
+        批准
+      </Button>
+      <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={startEditArgs} disabled={disabled}>
+        <Pencil className="h-3 w-3" />
+        修改参数
+      </Button>
+      <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={() => setEditing('deny')} disabled={disabled}>
+        <X className="h-3 w-3" />
+        拒绝
+      </Button>
+    </div>
+  );
+}
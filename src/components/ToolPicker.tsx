@@ -0,0 +1,99 @@
+/**
+ * ToolPicker - 选择本条消息允许 agent 使用的工具
+ * 提供 "全部" / "禁用网络" / "只读" 预设，也可逐个勾选
+ */
+
+import { Wrench, ChevronDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TOOL_PRESETS, resolveToolNames, type ToolSelection } from '@/lib/useToolSelectionStore';
+import type { ToolInfo } from '../types/events';
+
+interface ToolPickerProps {
+  tools: ToolInfo[];
+  selection: ToolSelection;
+  onChange: (selection: ToolSelection) => void;
+  disabled?: boolean;
+}
+
+function isSameSelection(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(name => b.includes(name));
+}
+
+export function ToolPicker({ tools, selection, onChange, disabled = false }: ToolPickerProps) {
+  const selected = resolveToolNames(tools, selection);
+
+  const handleToggle = (name: string, checked: boolean) => {
+    const next = checked ? [...selected, name] : selected.filter(n => n !== name);
+    // 全部勾选时恢复为 "全部"，之后新增的工具也自动可用
+    onChange(next.length === tools.length ? null : next);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 gap-1 px-2 text-xs text-muted-foreground"
+          disabled={disabled}
+          title="选择本条消息可用的工具"
+        >
+          <Wrench className="h-3 w-3" />
+          {selection === null ? '全部工具' : `工具 ${selected.length}/${tools.length}`}
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-[320px]">
+        <div className="flex gap-1 p-1">
+          {TOOL_PRESETS.map(preset => {
+            const presetSelection = preset.select(tools);
+            const isActive = presetSelection === null
+              ? selection === null
+              : selection !== null && isSameSelection(selected, resolveToolNames(tools, presetSelection));
+            return (
+              <Button
+                key={preset.id}
+                size="sm"
+                variant={isActive ? 'default' : 'outline'}
+                className="h-6 flex-1 px-2 text-xs"
+                onClick={() => onChange(presetSelection)}
+              >
+                {preset.label}
+              </Button>
+            );
+          })}
+        </div>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs text-muted-foreground">
+          已选 {selected.length}/{tools.length}
+        </DropdownMenuLabel>
+        <div className="max-h-[280px] overflow-y-auto">
+          {tools.map(tool => (
+            <DropdownMenuCheckboxItem
+              key={tool.name}
+              checked={selected.includes(tool.name)}
+              onCheckedChange={(checked) => handleToggle(tool.name, checked)}
+              // 勾选后保持菜单打开，便于连续选择
+              onSelect={(e) => e.preventDefault()}
+            >
+              <div className="min-w-0">
+                <div className="font-mono text-xs">{tool.name}</div>
+                {tool.description && (
+                  <div className="text-[11px] text-muted-foreground line-clamp-2">{tool.description}</div>
+                )}
+              </div>
+            </DropdownMenuCheckboxItem>
+          ))}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * UsageSummary - token 用量与估算费用
+ * 悬停显示各模型的 prompt / completion / 缓存 token 明细
+ */
+
+import { Coins } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useSettingsStore } from '@/lib/useSettingsStore';
+import { estimateCost, formatCost, formatTokens, totalTokens } from '@/lib/usage';
+import type { ModelUsage } from '../types/events';
+
+interface UsageSummaryProps {
+  usage: ModelUsage;
+  className?: string;
+}
+
+export function UsageSummary({ usage, className }: UsageSummaryProps) {
+  const modelPrices = useSettingsStore(state => state.modelPrices);
+  const total = totalTokens(usage);
+  const cost = estimateCost(usage, modelPrices);
+
+  const details = Object.entries(usage).map(([model, tokens]) =>
+    `${model}: 输入 ${tokens.promptTokens}（缓存 ${tokens.cachedTokens}） / 输出 ${tokens.completionTokens}`
+  );
+  if (cost === null) {
+    details.push('部分模型未配置价格，未估算费用');
+  }
+
+  return (
+    <span className={cn('inline-flex items-center gap-1', className)} title={details.join('\n')}>
+      <Coins className="h-3 w-3" />
+      {formatTokens(total.promptTokens)} 输入 / {formatTokens(total.completionTokens)} 输出
+      {cost !== null && <span>· {formatCost(cost)}</span>}
+    </span>
+  );
+}
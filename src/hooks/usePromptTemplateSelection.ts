@@ -0,0 +1,27 @@
+/**
+ * usePromptTemplateSelection hook - picks a prompt template for insertion
+ *
+ * Templates with {{variables}} are held as `pendingTemplate` until the
+ * PromptTemplateForm is submitted; templates without variables are inserted directly.
+ */
+
+import { useState } from 'react';
+import { extractTemplateVariables, type PromptTemplate } from '../lib/usePromptTemplateStore';
+
+export function usePromptTemplateSelection(onInsert: (text: string) => void) {
+  const [pendingTemplate, setPendingTemplate] = useState<PromptTemplate | null>(null);
+
+  const selectTemplate = (template: PromptTemplate) => {
+    if (extractTemplateVariables(template.content).length > 0) {
+      setPendingTemplate(template);
+    } else {
+      onInsert(template.content);
+    }
+  };
+
+  return {
+    pendingTemplate,
+    selectTemplate,
+    closeTemplateForm: () => setPendingTemplate(null),
+  };
+}
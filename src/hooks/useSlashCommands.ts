@@ -0,0 +1,19 @@
+/**
+ * useSlashCommands hook - registers a component's slash commands while it is mounted
+ *
+ * Commands are read by ChatInput from useSlashCommandStore; the latest `commands`
+ * array is registered whenever it changes, so callers should memoize it.
+ */
+
+import { useEffect } from 'react';
+import { useSlashCommandStore, type SlashCommand } from '../lib/useSlashCommandStore';
+
+export function useSlashCommands(source: string, commands: SlashCommand[]) {
+  useEffect(() => {
+    useSlashCommandStore.getState().register(source, commands);
+  }, [source, commands]);
+
+  useEffect(() => {
+    return () => useSlashCommandStore.getState().unregister(source);
+  }, [source]);
+}
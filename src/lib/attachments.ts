@@ -0,0 +1,82 @@
+/**
+ * 消息附件
+ * 读取用户选择、拖入或粘贴的文件，检查类型与大小后转为 base64 附件随消息发送
+ */
+
+import type { Attachment } from '../types/events';
+
+// 单个附件的大小上限（字节）
+export const MAX_ATTACHMENT_SIZE = 5 * 1024 * 1024;
+// 单条消息的附件数量上限
+export const MAX_ATTACHMENTS = 5;
+
+// 允许的文件类型：图片、文本类文件与 PDF
+const ACCEPTED_TYPE_PATTERN = /^(image\/(png|jpeg|gif|webp)|text\/.+|application\/(json|pdf|xml|x-yaml|yaml))$/;
+// 浏览器未识别类型时按扩展名判断的文本文件
+const TEXT_EXTENSION_PATTERN = /\.(md|txt|csv|json|ya?ml|xml|log|ts|tsx|js|jsx|py|java|go|rs|sql|sh)$/i;
+
+/** 文件选择框的 accept 属性 */
+export const ATTACHMENT_ACCEPT = 'image/png,image/jpeg,image/gif,image/webp,text/*,application/json,application/pdf,application/xml,.md,.yaml,.yml,.csv,.log';
+
+export function isImageAttachment(attachment: Pick<Attachment, 'mimeType'>): boolean {
+  return attachment.mimeType.startsWith('image/');
+}
+
+/**
+ * 附件的展示地址：内联内容优先，否则使用后端提供的 url
+ */
+export function getAttachmentSrc(attachment: Attachment): string | undefined {
+  if (attachment.data) return `data:${attachment.mimeType};base64,${attachment.data}`;
+  return attachment.url;
+}
+
+/**
+ * 12345 -> "12.1 KB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+function getMimeType(file: File): string {
+  if (file.type) return file.type;
+  return TEXT_EXTENSION_PATTERN.test(file.name) ? 'text/plain' : '';
+}
+
+/**
+ * 检查文件能否作为附件；不能时返回原因
+ */
+export function checkAttachmentFile(file: File, existingCount: number): string | null {
+  if (existingCount >= MAX_ATTACHMENTS) {
+    return `最多添加 ${MAX_ATTACHMENTS} 个附件`;
+  }
+  if (!ACCEPTED_TYPE_PATTERN.test(getMimeType(file))) {
+    return `不支持的文件类型：${file.name}`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} 超过 ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  return null;
+}
+
+/**
+ * 读取文件为 base64 附件
+ */
+export function readAttachment(file: File): Promise<Attachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      resolve({
+        id: `attachment_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        name: file.name,
+        mimeType: getMimeType(file),
+        size: file.size,
+        data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+      });
+    };
+    reader.onerror = () => reject(reader.error ?? new Error(`读取 ${file.name} 失败`));
+    reader.readAsDataURL(file);
+  });
+}
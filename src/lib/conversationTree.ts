@@ -0,0 +1,365 @@
+/**
+ * 会话分支树
+ * 会话以轮次树的形式保存：当前展示的分支是一条扁平的 ChatItem 路径，
+ * 分叉点（每个分支的第一条消息）的 branches 保存各个兄弟分支从该点起的完整内容，
+ * 分支内部的更深分叉同样嵌套保存，因此任何备选内容都不会丢失
+ *
+ * 本模块只包含纯函数：分叉、切换、导出，以及从带分支元数据的历史事件重建树
+ */
+
+import { isStepActivity, findCurrentPlanIndex, startPlanStep, completePlanStep } from './planSteps';
+import { appendPlanRevision } from './planRevisions';
+import { addUsage, findTurnUserIndex, sumMessageUsage } from './usage';
+import type { ChatItem, ChatBranch, ModelUsage } from '../types/events';
+import type { ConversationEvent } from '../services/sseClient';
+
+/**
+ * 分支导出文件格式
+ */
+export interface BranchExportFile {
+  version: 1;
+  mode: string;
+  conversationId?: string;
+  exportedAt: number;
+  // 分支内各轮 token 用量之和（各轮用量见用户消息的 usage）
+  usage?: ModelUsage;
+  messages: ChatItem[];
+}
+
+// ============================================================================
+// 分叉与切换
+// ============================================================================
+
+/**
+ * 把分叉点（index）起的当前内容写回其所在分支，返回更新后的分支列表
+ * 尚未分叉的消息返回只含当前内容的单个分支
+ */
+function saveCurrentBranch(messages: ChatItem[], index: number, conversationId: string | undefined): ChatBranch[] {
+  const [forkPoint, ...rest] = messages.slice(index);
+  const { branches = [], branchIndex = 0, ...item } = forkPoint;
+  const updated = branches.length > 0 ? [...branches] : [{ items: [] }];
+  updated[branchIndex] = { items: [item, ...rest], conversationId };
+  return updated;
+}
+
+/**
+ * 在 index 处分叉：当前内容保存为分支，forkItem 成为新分支（当前展示）的第一条消息
+ */
+export function forkAt(
+  messages: ChatItem[],
+  index: number,
+  conversationId: string | undefined,
+  forkItem: ChatItem
+): ChatItem[] {
+  const branches = saveCurrentBranch(messages, index, conversationId);
+  return [
+    ...messages.slice(0, index),
+    { ...forkItem, branches: [...branches, { items: [] }], branchIndex: branches.length },
+  ];
+}
+
+/**
+ * 切换 index 处分叉点展示的分支，返回新的路径及该分支对应的会话；无法切换时返回 null
+ */
+export function switchBranchAt(
+  messages: ChatItem[],
+  index: number,
+  branchIndex: number,
+  conversationId: string | undefined
+): { messages: ChatItem[]; conversationId?: string } | null {
+  const forkPoint = messages[index];
+  const target = forkPoint?.branches?.[branchIndex];
+  if (!target || branchIndex === forkPoint.branchIndex || target.items.length === 0) return null;
+
+  const branches = saveCurrentBranch(messages, index, conversationId);
+  const [first, ...rest] = target.items;
+  return {
+    messages: [...messages.slice(0, index), { ...first, branches, branchIndex }, ...rest],
+    conversationId: target.conversationId,
+  };
+}
+
+/**
+ * 查找包含 index 处消息的轮次的起点（该轮的用户消息）
+ */
+export function findTurnStart(messages: ChatItem[], index: number): number {
+  for (let i = index; i >= 0; i--) {
+    if (messages[i].type === 'user') return i;
+  }
+  return -1;
+}
+
+/**
+ * 导出当前展示的分支（去掉备选分支）
+ */
+export function exportBranch(mode: string, messages: ChatItem[], conversationId?: string): BranchExportFile {
+  return {
+    version: 1,
+    mode,
+    conversationId,
+    exportedAt: Date.now(),
+    usage: sumMessageUsage(messages),
+    messages: messages.map(item => {
+      const copy = { ...item };
+      delete copy.branches;
+      delete copy.branchIndex;
+      return copy;
+    }),
+  };
+}
+
+// ============================================================================
+// 历史事件转换
+// ============================================================================
+
+/**
+ * 将存储的事件转换为 ChatItem，合并 tool_result 与 tool_approval 到 tool_call
+ * step_start / step_complete 更新当前计划的步骤执行情况，期间的消息归入该步骤
+ * usage 按轮累加到该轮的用户消息
+ * 没有结果的工具调用（包括等待审批的）之后若出现新的用户消息、最终答案或错误，说明运行已中断，标记为已取消
+ */
+export function convertEventsToChatItems(
+  events: ConversationEvent[],
+  conversationId?: string,
+  mode?: 'react' | 'plan'
+): ChatItem[] {
+  const chatItems: ChatItem[] = [];
+  const toolResultMap = new Map<string, ConversationEvent>();
+  const toolApprovalMap = new Map<string, ConversationEvent>();
+
+  // 先收集所有 tool_result 与 tool_approval
+  for (const event of events) {
+    if (event.type === 'tool_result' && event.toolCallId) {
+      toolResultMap.set(event.toolCallId, event);
+    } else if (event.type === 'tool_approval' && event.toolCallId) {
+      toolApprovalMap.set(event.toolCallId, event);
+    }
+  }
+
+  let activeStepId: string | null = null;
+  // 尚未有结果的工具调用下标
+  let unresolvedToolCalls: number[] = [];
+  const updatePlan = (updater: (item: ChatItem) => ChatItem) => {
+    const index = findCurrentPlanIndex(chatItems);
+    if (index !== -1) chatItems[index] = updater(chatItems[index]);
+  };
+
+  // 转换事件，合并 tool_result 与 tool_approval 到 tool_call
+  for (const event of events) {
+    // 跳过 tool_result / tool_approval，因为会合并到 tool_call
+    if (event.type === 'tool_result' || event.type === 'tool_approval') continue;
+
+    if (event.type === 'step_start' && event.stepId) {
+      const stepId = event.stepId;
+      activeStepId = stepId;
+      updatePlan(item => startPlanStep(item, stepId, event.timestamp));
+      continue;
+    }
+    if (event.type === 'step_complete' && event.stepId) {
+      const stepId = event.stepId;
+      if (activeStepId === stepId) activeStepId = null;
+      updatePlan(item => completePlanStep(item, {
+        stepId,
+        result: event.result ?? '',
+        success: event.success ?? true,
+        duration: event.duration ?? 0,
+        timestamp: event.timestamp,
+      }));
+      continue;
+    }
+    if (event.type === 'usage') {
+      const userIndex = findTurnUserIndex(chatItems);
+      if (event.model && userIndex !== -1) {
+        chatItems[userIndex] = {
+          ...chatItems[userIndex],
+          usage: addUsage(chatItems[userIndex].usage, {
+            model: event.model,
+            promptTokens: event.promptTokens ?? 0,
+            completionTokens: event.completionTokens ?? 0,
+            cachedTokens: event.cachedTokens,
+          }),
+        };
+      }
+      continue;
+    }
+    // 新的一轮或最终答案之后不再处于任何步骤中
+    if (event.type === 'user' || event.type === 'final_result') {
+      activeStepId = null;
+    }
+    if (event.type === 'user' || event.type === 'final_result' || event.type === 'error') {
+      for (const index of unresolvedToolCalls) {
+        chatItems[index] = { ...chatItems[index], isCancelled: true };
+      }
+      unresolvedToolCalls = [];
+    }
+    const stepId = event.stepId ?? activeStepId;
+    const itemCount = chatItems.length;
+
+    if (event.type === 'tool_call' && event.toolCallId) {
+      const toolResult = toolResultMap.get(event.toolCallId);
+      const approval = toolApprovalMap.get(event.toolCallId);
+      const approved = !!approval?.approved;
+      chatItems.push({
+        id: event.id,
+        type: 'tool_call',
+        content: event.toolName || '',
+        timestamp: event.timestamp,
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        // 批准时修改过的参数以审批记录为准
+        args: approved && approval?.args ? approval.args : event.args,
+        // 合并 tool_result 的字段
+        result: toolResult?.result,
+        success: toolResult?.success,
+        duration: toolResult?.duration,
+        ...(approval ? {
+          approval: {
+            status: approved ? 'approved' as const : 'denied' as const,
+            reason: approval.reason,
+            argsEdited: approved && !!approval.args,
+          },
+        } : {}),
+        isStreaming: false,
+        isComplete: true,
+      });
+      if (!toolResult && !(approval && !approved)) {
+        unresolvedToolCalls.push(chatItems.length - 1);
+      }
+    } else if (event.type === 'artifact_event') {
+      // 新版 artifact_event 直接包含 artifacts 数组
+      chatItems.push({
+        id: event.id,
+        type: 'artifact',
+        content: '',
+        timestamp: event.timestamp,
+        artifacts: event.artifacts,
+        conversationId: conversationId,
+        mode: event.mode || mode,
+      });
+    } else if (event.type === 'plan_update' && event.plan) {
+      // 同一轮内的重新规划合并到已有的计划消息，逐个追加修订
+      const plan = event.plan;
+      const revision = { plan, timestamp: event.timestamp };
+      const planIndex = findCurrentPlanIndex(chatItems);
+      if (planIndex !== -1) {
+        const existing = chatItems[planIndex];
+        chatItems[planIndex] = {
+          ...existing,
+          content: plan.goal || '',
+          plan,
+          planRevisions: appendPlanRevision(existing.planRevisions, revision),
+        };
+      } else {
+        chatItems.push({
+          id: event.id,
+          type: 'plan',
+          content: plan.goal || '',
+          timestamp: event.timestamp,
+          plan,
+          planRevisions: [revision],
+        });
+      }
+    } else if (event.type === 'final_result') {
+      chatItems.push({
+        id: event.id,
+        type: 'final_result',
+        content: event.content || '',
+        timestamp: event.timestamp,
+        totalDuration: event.totalDuration,
+        iterationCount: event.iterationCount,
+      });
+    } else if (event.type === 'error') {
+      chatItems.push({
+        id: event.id,
+        type: 'error',
+        content: event.message || '',
+        timestamp: event.timestamp,
+      });
+    } else {
+      // user, thought, normal_message
+      chatItems.push({
+        id: event.id,
+        type: event.type as ChatItem['type'],
+        content: event.content || '',
+        ...(event.attachments?.length ? { attachments: event.attachments } : {}),
+        ...(event.mentions?.length ? { mentions: event.mentions } : {}),
+        timestamp: event.timestamp,
+      });
+    }
+
+    const item = chatItems[chatItems.length - 1];
+    if (stepId && chatItems.length > itemCount && isStepActivity(item)) {
+      item.stepId = stepId;
+    }
+  }
+
+  return chatItems;
+}
+
+interface EventTurn {
+  id: string;
+  parentId: string | null;
+  events: ConversationEvent[];
+}
+
+/**
+ * 将存储的事件转换为 ChatItem 路径
+ * 事件带 turnId / parentTurnId 时重建分支树，展示 activeTurnId 所在的分支（默认最后一轮）；
+ * 否则按线性历史处理
+ */
+export function buildChatItems(
+  events: ConversationEvent[],
+  conversationId?: string,
+  mode?: 'react' | 'plan',
+  activeTurnId?: string
+): ChatItem[] {
+  if (!events.some(event => event.turnId)) {
+    return convertEventsToChatItems(events, conversationId, mode);
+  }
+
+  // 按轮次分组；未标注轮次的事件归入上一个事件的轮次，轮次默认接在上一轮之后
+  const turns = new Map<string, EventTurn>();
+  let current: EventTurn | undefined;
+  for (const event of events) {
+    const turnId = event.turnId ?? current?.id ?? '';
+    let turn = turns.get(turnId);
+    if (!turn) {
+      const parentId = event.parentTurnId !== undefined ? event.parentTurnId : current?.id ?? null;
+      turn = { id: turnId, parentId, events: [] };
+      turns.set(turnId, turn);
+    }
+    turn.events.push(event);
+    current = turn;
+  }
+
+  const children = new Map<string | null, EventTurn[]>();
+  for (const turn of turns.values()) {
+    const parentId = turn.parentId !== null && turns.has(turn.parentId) ? turn.parentId : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), turn]);
+  }
+
+  // 当前展示分支经过的轮次
+  const activePath = new Set<string>();
+  for (let turn = turns.get(activeTurnId ?? current?.id ?? ''); turn; turn = turn.parentId !== null ? turns.get(turn.parentId) : undefined) {
+    if (activePath.has(turn.id)) break;
+    activePath.add(turn.id);
+  }
+
+  const buildPath = (parentId: string | null, visited: Set<string>): ChatItem[] => {
+    const siblings = (children.get(parentId) ?? []).filter(turn => !visited.has(turn.id));
+    if (siblings.length === 0) return [];
+
+    const paths = siblings.map(turn => [
+      ...convertEventsToChatItems(turn.events, conversationId, mode),
+      ...buildPath(turn.id, new Set(visited).add(turn.id)),
+    ]);
+    const activeIndex = Math.max(0, siblings.findIndex(turn => activePath.has(turn.id)));
+    if (siblings.length === 1 || paths[activeIndex].length === 0) return paths[activeIndex];
+
+    const branches: ChatBranch[] = paths.map(items => ({ items, conversationId }));
+    const [first, ...rest] = paths[activeIndex];
+    return [{ ...first, branches, branchIndex: activeIndex }, ...rest];
+  };
+
+  return buildPath(null, new Set());
+}
@@ -0,0 +1,239 @@
+/**
+ * Agent 事件运行时校验
+ * 为 AgentEvent / CodingEvent 联合类型的每个成员提供字段级校验，
+ * 避免畸形或未知事件被直接断言为合法类型
+ */
+
+import type { AgentEvent, CodingEvent } from '../types/events';
+
+// ============================================================================
+// 基础校验器
+// ============================================================================
+
+type Check = (value: unknown) => boolean;
+
+/** 字段名 -> 校验器，字段名以 '?' 结尾表示可选（值为 undefined 或 null 均视为未提供） */
+type Schema = Record<string, Check>;
+
+const isString: Check = (v) => typeof v === 'string';
+const isNumber: Check = (v) => typeof v === 'number' && Number.isFinite(v);
+const isBoolean: Check = (v) => typeof v === 'boolean';
+const isUnknown: Check = () => true;
+const isRecord: Check = (v) => typeof v === 'object' && v !== null && !Array.isArray(v);
+const arrayOf = (check: Check): Check => (v) => Array.isArray(v) && v.every(check);
+const oneOf = (...values: string[]): Check => (v) => typeof v === 'string' && values.includes(v);
+const shape = (schema: Schema): Check => (v) => isRecord(v) && checkSchema(v as Record<string, unknown>, schema).length === 0;
+
+function checkSchema(value: Record<string, unknown>, schema: Schema): string[] {
+  const errors: string[] = [];
+  for (const [key, check] of Object.entries(schema)) {
+    const optional = key.endsWith('?');
+    const field = optional ? key.slice(0, -1) : key;
+    const fieldValue = value[field];
+    if (fieldValue === undefined || (optional && fieldValue === null)) {
+      if (!optional) errors.push(`缺少字段 "${field}"`);
+    } else if (!check(fieldValue)) {
+      errors.push(`字段 "${field}" 类型不正确`);
+    }
+  }
+  return errors;
+}
+
+// ============================================================================
+// 复合结构
+// ============================================================================
+
+const isPlanStep = shape({
+  id: isString,
+  description: isString,
+  status: oneOf('pending', 'in_progress', 'done', 'failed', 'skipped'),
+  'requiredTools?': arrayOf(isString),
+  'result?': isString,
+});
+
+const isPlan = shape({
+  goal: isString,
+  steps: arrayOf(isPlanStep),
+  reasoning: isString,
+});
+
+const isArtifactInfo = shape({
+  name: isString,
+  path: isString,
+  type: oneOf('md', 'html', 'txt', 'json', 'other'),
+  size: isNumber,
+});
+
+const isBDDFeature = shape({
+  feature_id: isString,
+  feature_title: isString,
+  'description?': isString,
+  scenarios: arrayOf(isRecord),
+});
+
+const isArchitectureFile = shape({
+  path: isString,
+  type: isString,
+  description: isString,
+});
+
+const isGeneratedFile = shape({
+  path: isString,
+  content: isString,
+});
+
+const CODING_PHASE = oneOf('bdd', 'architect', 'codegen');
+
+// ============================================================================
+// 事件 Schema（键类型保证覆盖联合类型的每个成员）
+// ============================================================================
+
+const AGENT_EVENT_SCHEMAS: { [K in AgentEvent['type']]: Schema } = {
+  thought: { thoughtId: isString, chunk: isString, isComplete: isBoolean, timestamp: isNumber },
+  tool_call: { toolCallId: isString, toolName: isString, args: isRecord, 'requiresApproval?': isBoolean, timestamp: isNumber },
+  tool_call_result: {
+    toolCallId: isString,
+    toolName: isString,
+    result: isString,
+    success: isBoolean,
+    duration: isNumber,
+    timestamp: isNumber,
+  },
+  tool_approval: {
+    toolCallId: isString,
+    approved: isBoolean,
+    'args?': isRecord,
+    'reason?': isString,
+    timestamp: isNumber,
+  },
+  final_result: { content: isString, totalDuration: isNumber, iterationCount: isNumber, timestamp: isNumber },
+  final_answer_stream: { answerId: isString, chunk: isString, isComplete: isBoolean, timestamp: isNumber },
+  usage: {
+    model: isString,
+    promptTokens: isNumber,
+    completionTokens: isNumber,
+    'cachedTokens?': isNumber,
+    timestamp: isNumber,
+  },
+  error: { message: isString, 'timestamp?': isNumber, 'details?': isUnknown },
+  cancelled: { 'reason?': isString, timestamp: isNumber },
+  normal_message: { messageId: isString, content: isString, timestamp: isNumber },
+  step_start: { stepId: isString, description: isString, timestamp: isNumber },
+  step_complete: { stepId: isString, result: isString, success: isBoolean, duration: isNumber, timestamp: isNumber },
+  artifact_event: {
+    conversationId: isString,
+    mode: oneOf('react', 'plan'),
+    artifacts: arrayOf(isArtifactInfo),
+    timestamp: isNumber,
+  },
+  final_answer: { content: isString },
+  done: { result: isString },
+  plan_update: { plan: isPlan, 'awaitingReview?': isBoolean, 'timestamp?': isNumber },
+  planner_done: { success: isBoolean, response: isString, plan: isPlan },
+};
+
+const CODING_EVENT_SCHEMAS: { [K in CodingEvent['type']]: Schema } = {
+  phase_start: { phase: CODING_PHASE, message: isString, timestamp: isNumber },
+  phase_complete: { phase: CODING_PHASE, data: isUnknown, timestamp: isNumber },
+  bdd_generated: { features: arrayOf(isBDDFeature), timestamp: isNumber },
+  architecture_generated: { files: arrayOf(isArchitectureFile), timestamp: isNumber },
+  code_generated: {
+    files: arrayOf(isGeneratedFile),
+    'tree?': isRecord,
+    summary: isString,
+    'projectId?': isString,
+    timestamp: isNumber,
+  },
+  coding_done: {
+    success: isBoolean,
+    'bddFeatures?': arrayOf(isBDDFeature),
+    'architecture?': arrayOf(isArchitectureFile),
+    'generatedFiles?': arrayOf(isGeneratedFile),
+    'tree?': isRecord,
+    'summary?': isString,
+    'projectId?': isString,
+    'error?': isString,
+  },
+  thought: AGENT_EVENT_SCHEMAS.thought,
+  normal_message: AGENT_EVENT_SCHEMAS.normal_message,
+  tool_call: AGENT_EVENT_SCHEMAS.tool_call,
+  tool_call_result: AGENT_EVENT_SCHEMAS.tool_call_result,
+  tool_approval: AGENT_EVENT_SCHEMAS.tool_approval,
+  usage: AGENT_EVENT_SCHEMAS.usage,
+  error: AGENT_EVENT_SCHEMAS.error,
+  cancelled: AGENT_EVENT_SCHEMAS.cancelled,
+};
+
+// ============================================================================
+// 校验入口
+// ============================================================================
+
+/**
+ * 校验失败信息
+ */
+export interface EventValidationIssue {
+  /** unknown_type: 未知事件类型；invalid: 已知类型但字段不合法 */
+  reason: 'unknown_type' | 'invalid';
+  /** payload 中的 type 字段（缺失时为 undefined） */
+  eventType?: string;
+  errors: string[];
+  raw: unknown;
+}
+
+export type EventValidationResult<T> =
+  | { ok: true; event: T }
+  | { ok: false; issue: EventValidationIssue };
+
+function validateWith<T>(raw: unknown, schemas: Record<string, Schema>): EventValidationResult<T> {
+  if (!isRecord(raw)) {
+    return { ok: false, issue: { reason: 'invalid', errors: ['事件不是 JSON 对象'], raw } };
+  }
+
+  const record = raw as Record<string, unknown>;
+  const eventType = typeof record.type === 'string' ? record.type : undefined;
+  if (eventType === undefined) {
+    return { ok: false, issue: { reason: 'invalid', errors: ['缺少字段 "type"'], raw } };
+  }
+
+  const schema = Object.prototype.hasOwnProperty.call(schemas, eventType) ? schemas[eventType] : undefined;
+  if (!schema) {
+    return { ok: false, issue: { reason: 'unknown_type', eventType, errors: [`未知事件类型 "${eventType}"`], raw } };
+  }
+
+  const errors = checkSchema(record, schema);
+  if (errors.length > 0) {
+    return { ok: false, issue: { reason: 'invalid', eventType, errors, raw } };
+  }
+  return { ok: true, event: omitNullOptionals(record, schema) as T };
+}
+
+/**
+ * 去掉值为 null 的可选字段，使事件与类型定义一致（可选字段只会是 undefined）
+ */
+function omitNullOptionals(record: Record<string, unknown>, schema: Schema): Record<string, unknown> {
+  const nullFields = Object.keys(schema)
+    .filter(key => key.endsWith('?') && record[key.slice(0, -1)] === null)
+    .map(key => key.slice(0, -1));
+  if (nullFields.length === 0) return record;
+
+  const event = { ...record };
+  for (const field of nullFields) {
+    delete event[field];
+  }
+  return event;
+}
+
+/**
+ * 校验 ReAct / Planner 流中的事件
+ */
+export function validateAgentEvent(raw: unknown): EventValidationResult<AgentEvent> {
+  return validateWith<AgentEvent>(raw, AGENT_EVENT_SCHEMAS);
+}
+
+/**
+ * 校验 Coding 流中的事件
+ * Coding 流也会透传部分通用 Agent 事件（如 plan_update、final_result），一并接受
+ */
+export function validateCodingEvent(raw: unknown): EventValidationResult<CodingEvent | AgentEvent> {
+  return validateWith<CodingEvent | AgentEvent>(raw, { ...AGENT_EVENT_SCHEMAS, ...CODING_EVENT_SCHEMAS });
+}
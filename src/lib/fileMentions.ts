@@ -0,0 +1,96 @@
+/**
+ * @ 文件引用
+ * 编程模式下在需求中以 "@src/App.tsx" 或 "@src/App.tsx:10-20" 引用项目文件（可选行范围），
+ * 发送时作为重点关注的上下文（focusFiles）随编程请求提交
+ */
+
+import type { FileMention } from '../types/events';
+import { normalizeFilePath } from './projectFiles';
+
+// 行首或空白后的 "@路径"，可带 ":行" 或 ":起始行-结束行"
+const MENTION_PATTERN = /(^|\s)@([^\s@:]+)(?::(\d+)(?:-(\d+))?)?/g;
+
+// 路径后紧跟的标点（如 "@src/App.tsx，"），不属于路径
+const TRAILING_PUNCTUATION_PATTERN = /[,.;!?)\]，。；！？）、]+$/;
+
+// 补全时取光标前正在输入的 "@前缀"
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@:]*)$/;
+
+// 补全候选数量上限
+const MAX_SUGGESTIONS = 8;
+
+/**
+ * 从输入中解析引用的文件；只保留项目中存在的路径，同一文件同一范围只保留一次
+ */
+export function parseFileMentions(text: string, paths: string[]): FileMention[] {
+  const known = new Set(paths.map(normalizeFilePath));
+  const mentions: FileMention[] = [];
+  const seen = new Set<string>();
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    let path = normalizeFilePath(match[2]);
+    if (!known.has(path)) {
+      path = path.replace(TRAILING_PUNCTUATION_PATTERN, '');
+      if (!known.has(path)) continue;
+    }
+
+    const mention: FileMention = { path };
+    if (match[3]) {
+      const start = Number(match[3]);
+      const end = match[4] ? Number(match[4]) : start;
+      if (start > 0) {
+        mention.startLine = Math.min(start, end);
+        mention.endLine = Math.max(start, end);
+      }
+    }
+
+    const key = formatFileMention(mention);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    mentions.push(mention);
+  }
+
+  return mentions;
+}
+
+/**
+ * "src/App.tsx"、"src/App.tsx:10" 或 "src/App.tsx:10-20"
+ */
+export function formatFileMention(mention: FileMention): string {
+  if (!mention.startLine) return mention.path;
+  if (!mention.endLine || mention.endLine === mention.startLine) {
+    return `${mention.path}:${mention.startLine}`;
+  }
+  return `${mention.path}:${mention.startLine}-${mention.endLine}`;
+}
+
+/**
+ * 光标前正在输入的引用
+ * @returns 引用前缀（不含 @）及 @ 的位置；光标前不是引用时返回 null
+ */
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = MENTION_QUERY_PATTERN.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { query: match[2], start: match.index + match[1].length };
+}
+
+/**
+ * 补全候选：文件名前缀匹配优先，其次路径包含匹配
+ */
+export function matchFilePaths(paths: string[], query: string): string[] {
+  const lowerQuery = query.toLowerCase();
+  const byName: string[] = [];
+  const byPath: string[] = [];
+
+  for (const path of paths) {
+    const lowerPath = path.toLowerCase();
+    const name = lowerPath.split('/').pop() ?? lowerPath;
+    if (name.startsWith(lowerQuery)) {
+      byName.push(path);
+    } else if (lowerPath.includes(lowerQuery)) {
+      byPath.push(path);
+    }
+  }
+
+  return [...byName, ...byPath].slice(0, MAX_SUGGESTIONS);
+}
@@ -0,0 +1,73 @@
+/**
+ * 计划修订历史
+ * 每次 plan_update（以及用户审阅时编辑后批准的计划）作为一个修订保存在计划消息上，
+ * 相邻修订按步骤 id 对比，得到新增、删除、改写和状态变化的步骤
+ */
+
+import type { Plan, PlanRevision, PlanStep } from '../types/events';
+
+/**
+ * 追加一个修订；与上一个修订内容相同时忽略（如续传时重放的 plan_update）
+ */
+export function appendPlanRevision(revisions: PlanRevision[] | undefined, revision: PlanRevision): PlanRevision[] {
+  const previous = revisions?.[revisions.length - 1];
+  if (previous && JSON.stringify(previous.plan) === JSON.stringify(revision.plan)) {
+    return revisions;
+  }
+  return [...(revisions ?? []), revision];
+}
+
+/**
+ * 单个步骤在两个版本之间的变化
+ */
+export interface PlanStepDiff {
+  /** 新版本中的步骤（removed 时为旧版本中的步骤） */
+  step: PlanStep;
+  /** 旧版本中的步骤（added 时没有） */
+  previous?: PlanStep;
+  change: 'added' | 'removed' | 'modified' | 'unchanged';
+  reworded: boolean;
+  statusChanged: boolean;
+  toolsChanged: boolean;
+}
+
+/**
+ * 对比两个版本的计划
+ * 结果按新版本的步骤顺序排列，被删除的步骤插在其原来的前一个步骤之后
+ */
+export function diffPlans(before: Plan, after: Plan): PlanStepDiff[] {
+  const previousById = new Map(before.steps.map(step => [step.id, step]));
+  const currentIds = new Set(after.steps.map(step => step.id));
+
+  const diffs: PlanStepDiff[] = after.steps.map(step => {
+    const previous = previousById.get(step.id);
+    if (!previous) {
+      return { step, change: 'added', reworded: false, statusChanged: false, toolsChanged: false };
+    }
+    const reworded = previous.description !== step.description;
+    const statusChanged = previous.status !== step.status;
+    const toolsChanged = (previous.requiredTools ?? []).join('\n') !== (step.requiredTools ?? []).join('\n');
+    return {
+      step,
+      previous,
+      change: reworded || statusChanged || toolsChanged ? 'modified' : 'unchanged',
+      reworded,
+      statusChanged,
+      toolsChanged,
+    };
+  });
+
+  // 被删除的步骤放在旧版本中它前面那个仍然存在的步骤之后
+  before.steps.forEach((step, index) => {
+    if (currentIds.has(step.id)) return;
+    const removed: PlanStepDiff = { step, change: 'removed', reworded: false, statusChanged: false, toolsChanged: false };
+    const anchor = before.steps.slice(0, index).reverse().find(s => currentIds.has(s.id));
+    const anchorIndex = anchor ? diffs.findIndex(d => d.change !== 'removed' && d.step.id === anchor.id) : -1;
+    // 同一锚点后的多个删除步骤保持原顺序
+    let insertAt = anchorIndex + 1;
+    while (insertAt < diffs.length && diffs[insertAt].change === 'removed') insertAt++;
+    diffs.splice(insertAt, 0, removed);
+  });
+
+  return diffs;
+}
@@ -0,0 +1,127 @@
+/**
+ * 计划步骤与执行过程的关联
+ * 规划模式下 step_start 与 step_complete 之间产生的思考、工具调用等消息带上 stepId，
+ * 计划卡片据此按步骤分组展示；步骤的开始时间、耗时和结果记录在计划消息的 stepRuns 中
+ *
+ * 每一轮（用户消息之后）最多有一个计划消息，步骤 id 只在该轮内有效
+ */
+
+import type { ChatItem, PlanStepRun, StepCompleteEvent } from '../types/events';
+
+// 归属到步骤的消息类型（最终答案属于整轮，不归入步骤）
+const STEP_ACTIVITY_TYPES: ChatItem['type'][] = ['thought', 'tool_call', 'normal_message', 'artifact'];
+
+export function isStepActivity(item: ChatItem): boolean {
+  return STEP_ACTIVITY_TYPES.includes(item.type);
+}
+
+/**
+ * 当前轮次的计划消息下标（计划与步骤事件作用于它）；本轮还没有计划时返回 -1
+ */
+export function findCurrentPlanIndex(messages: ChatItem[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].type === 'plan') return i;
+    if (messages[i].type === 'user') return -1;
+  }
+  return -1;
+}
+
+function updatePlanStep(
+  item: ChatItem,
+  stepId: string,
+  run: PlanStepRun,
+  changes: { status: 'in_progress' | 'done' | 'failed'; result?: string }
+): ChatItem {
+  return {
+    ...item,
+    plan: item.plan && {
+      ...item.plan,
+      steps: item.plan.steps.map(step => step.id === stepId ? { ...step, ...changes } : step),
+    },
+    stepRuns: { ...item.stepRuns, [stepId]: run },
+  };
+}
+
+/**
+ * 步骤开始：标记为进行中并记录开始时间
+ */
+export function startPlanStep(item: ChatItem, stepId: string, timestamp: number): ChatItem {
+  return updatePlanStep(item, stepId, { startedAt: timestamp }, { status: 'in_progress' });
+}
+
+/**
+ * 步骤完成：记录耗时与结果
+ */
+export function completePlanStep(
+  item: ChatItem,
+  event: Pick<StepCompleteEvent, 'stepId' | 'result' | 'success' | 'duration' | 'timestamp'>
+): ChatItem {
+  const run: PlanStepRun = {
+    startedAt: item.stepRuns?.[event.stepId]?.startedAt ?? event.timestamp - event.duration,
+    duration: event.duration,
+    success: event.success,
+    result: event.result,
+  };
+  return updatePlanStep(item, event.stepId, run, {
+    status: event.success ? 'done' : 'failed',
+    result: event.result,
+  });
+}
+
+/**
+ * 按计划消息 id、再按 stepId 分组各步骤的执行过程
+ */
+export function groupStepActivity(messages: ChatItem[]): Record<string, Record<string, ChatItem[]>> {
+  const groups: Record<string, Record<string, ChatItem[]>> = {};
+  let planId: string | null = null;
+  for (const item of messages) {
+    if (item.type === 'user') {
+      planId = null;
+    } else if (item.type === 'plan') {
+      planId = item.id;
+    } else if (item.stepId && planId) {
+      ((groups[planId] ??= {})[item.stepId] ??= []).push(item);
+    }
+  }
+  return groups;
+}
+
+/**
+ * 步骤执行过程前的标题（计划卡片点击步骤时的跳转锚点）
+ */
+export interface StepHeading {
+  anchorId: string;
+  stepNumber: number;
+  description: string;
+}
+
+export function getStepAnchorId(planId: string, stepId: string): string {
+  return `${planId}:${stepId}`;
+}
+
+/**
+ * 找出每个步骤的第一条执行过程，按消息 id 返回其前面要插入的步骤标题
+ */
+export function findStepHeadings(messages: ChatItem[]): Record<string, StepHeading> {
+  const headings: Record<string, StepHeading> = {};
+  let plan: ChatItem | null = null;
+  let previousStepId: string | undefined;
+  for (const item of messages) {
+    if (item.type === 'user') {
+      plan = null;
+    } else if (item.type === 'plan') {
+      plan = item;
+    } else if (plan?.plan && item.stepId && item.stepId !== previousStepId) {
+      const index = plan.plan.steps.findIndex(step => step.id === item.stepId);
+      if (index !== -1) {
+        headings[item.id] = {
+          anchorId: getStepAnchorId(plan.id, item.stepId),
+          stepNumber: index + 1,
+          description: plan.plan.steps[index].description,
+        };
+      }
+    }
+    previousStepId = item.stepId;
+  }
+  return headings;
+}
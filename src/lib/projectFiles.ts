@@ -0,0 +1,54 @@
+/**
+ * 项目文件列表
+ * 编程模式的代码面板与 @ 文件引用共用：优先从 WebContainer 文件树解析完整文件列表，
+ * 否则使用 code_generated 事件给出的文件
+ */
+
+import type { GeneratedFile } from '../types/events';
+
+/**
+ * 去掉路径开头的 "./" 或 "/"
+ */
+export function normalizeFilePath(path: string): string {
+  if (path.startsWith('./')) return path.substring(2);
+  if (path.startsWith('/')) return path.substring(1);
+  return path;
+}
+
+/**
+ * 将 WebContainerTree 转换为扁平的 GeneratedFile 数组
+ * WebContainerTree 结构: { "filename": { file: { contents: "..." } }, "dirname": { directory: { ... } } }
+ */
+export function parseTreeToFiles(tree: unknown, basePath: string = ''): GeneratedFile[] {
+  const files: GeneratedFile[] = [];
+
+  if (!tree || typeof tree !== 'object') return files;
+
+  for (const [key, value] of Object.entries(tree)) {
+    const node = value as { file?: { contents?: unknown }; directory?: unknown };
+    const currentPath = basePath ? `${basePath}/${key}` : key;
+
+    if (node.file && typeof node.file.contents === 'string') {
+      // 这是一个文件
+      files.push({
+        path: currentPath,
+        content: node.file.contents,
+      });
+    } else if (node.directory && typeof node.directory === 'object') {
+      // 这是一个目录，递归处理
+      files.push(...parseTreeToFiles(node.directory, currentPath));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * 项目当前的文件：优先使用 tree 解析的完整文件列表（包含 package.json 等），否则使用 files
+ */
+export function getProjectFiles(tree: unknown, files: GeneratedFile[]): GeneratedFile[] {
+  if (tree && typeof tree === 'object' && Object.keys(tree).length > 0) {
+    return parseTreeToFiles(tree);
+  }
+  return files;
+}
@@ -0,0 +1,121 @@
+/**
+ * 流式渲染基准测试
+ * 将录制的流（Fixture）按时间注入对应模式的会话，期间逐帧记录帧间隔，
+ * 用于发现高频 chunk 下的渲染回归
+ */
+
+import type { StreamFixture } from './useFixtureStore';
+import type { RunMode } from './useSettingsStore';
+import { useChatStore } from './useChatStore';
+import { validateAgentEvent, validateCodingEvent } from './eventValidation';
+
+// 超过该时长的帧视为卡顿（毫秒）
+export const LONG_FRAME_THRESHOLD = 50;
+
+// 不进入会话的控制事件
+const CONTROL_EVENTS = ['conversation_id', 'run_started'];
+
+const MODE_BY_PATH: Record<string, RunMode> = {
+  '/api/react': 'react',
+  '/api/planner': 'planner',
+  '/api/coding': 'coding',
+};
+
+/**
+ * 基准测试结果
+ */
+export interface StreamBenchmarkReport {
+  fixtureId: string;
+  mode: RunMode;
+  /** 注入的事件数 */
+  events: number;
+  /** 其中 thought / final_answer_stream chunk 数 */
+  chunks: number;
+  /** 从第一个事件到最后一帧的总时长（毫秒） */
+  duration: number;
+  frames: number;
+  averageFrame: number;
+  p95Frame: number;
+  maxFrame: number;
+  /** 超过 LONG_FRAME_THRESHOLD 的帧数 */
+  longFrames: number;
+}
+
+export function getFixtureMode(fixture: StreamFixture): RunMode | undefined {
+  return MODE_BY_PATH[fixture.path];
+}
+
+function nextFrame(): Promise<number> {
+  return new Promise(resolve => requestAnimationFrame(resolve));
+}
+
+function percentile(sorted: number[], ratio: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * ratio))];
+}
+
+/**
+ * 回放 Fixture 并测量帧时间
+ * 会先清空该模式的当前会话（包括待发送队列，调用方负责确认）；speed 为 0 时所有事件在同一时刻注入（压力测试）
+ */
+export async function runStreamBenchmark(fixture: StreamFixture, speed: number): Promise<StreamBenchmarkReport> {
+  const mode = getFixtureMode(fixture);
+  if (!mode) {
+    throw new Error(`Unsupported fixture path: ${fixture.path}`);
+  }
+
+  const store = useChatStore.getState();
+  store.newConversation(mode);
+
+  const validate = mode === 'coding' ? validateCodingEvent : validateAgentEvent;
+  const events = fixture.messages.flatMap(message => {
+    if (CONTROL_EVENTS.includes(message.event)) return [];
+    try {
+      const validation = validate(JSON.parse(message.data));
+      return validation.ok ? [{ offset: message.offset, event: validation.event }] : [];
+    } catch {
+      return [];
+    }
+  });
+  const chunks = events.filter(e => e.event.type === 'thought' || e.event.type === 'final_answer_stream').length;
+  const baseOffset = events[0]?.offset ?? 0;
+
+  // 逐帧记录帧间隔，直到所有事件注入完毕后的两帧（确保合并的 chunk 已渲染）
+  const frameTimes: number[] = [];
+  let replayDone = false;
+  const measure = (async () => {
+    let last = await nextFrame();
+    let settleFrames = 2;
+    while (!replayDone || settleFrames-- > 0) {
+      const now = await nextFrame();
+      frameTimes.push(now - last);
+      last = now;
+    }
+  })();
+
+  const start = performance.now();
+  await Promise.all(events.map(({ offset, event }) => new Promise<void>(resolve => {
+    const delay = speed > 0 ? (offset - baseOffset) / speed : 0;
+    setTimeout(() => {
+      store.replayEvent(mode, event);
+      resolve();
+    }, delay);
+  })));
+  replayDone = true;
+  await measure;
+  const duration = performance.now() - start;
+
+  const sorted = [...frameTimes].sort((a, b) => a - b);
+  return {
+    fixtureId: fixture.id,
+    mode,
+    events: events.length,
+    chunks,
+    duration,
+    frames: frameTimes.length,
+    averageFrame: frameTimes.length > 0 ? frameTimes.reduce((sum, t) => sum + t, 0) / frameTimes.length : 0,
+    p95Frame: percentile(sorted, 0.95),
+    maxFrame: sorted[sorted.length - 1] ?? 0,
+    longFrames: frameTimes.filter(t => t > LONG_FRAME_THRESHOLD).length,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Token 用量与费用估算
+ * usage 事件按模型累加到本轮的用户消息上（出错、取消或没有最终答案的轮次同样计入）；会话总量为各轮之和
+ * 费用按设置中的模型价格表（美元 / 百万 token）估算
+ */
+
+import type { ChatItem, ModelUsage, TokenUsage, UsageEvent } from '../types/events';
+import type { ModelPrice } from './useSettingsStore';
+
+const EMPTY_USAGE: TokenUsage = { promptTokens: 0, completionTokens: 0, cachedTokens: 0 };
+
+/**
+ * 累加一次 usage 事件
+ */
+export function addUsage(
+  usage: ModelUsage | undefined,
+  event: Pick<UsageEvent, 'model' | 'promptTokens' | 'completionTokens' | 'cachedTokens'>
+): ModelUsage {
+  const current = usage?.[event.model] ?? EMPTY_USAGE;
+  return {
+    ...usage,
+    [event.model]: {
+      promptTokens: current.promptTokens + event.promptTokens,
+      completionTokens: current.completionTokens + event.completionTokens,
+      cachedTokens: current.cachedTokens + (event.cachedTokens ?? 0),
+    },
+  };
+}
+
+/**
+ * 当前轮次的用户消息下标（用量写入该消息）；还没有用户消息时返回 -1
+ */
+export function findTurnUserIndex(messages: ChatItem[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].type === 'user') return i;
+  }
+  return -1;
+}
+
+/**
+ * 将一次 usage 事件累加到当前轮次的用户消息；没有用户消息时原样返回
+ */
+export function addTurnUsage(
+  messages: ChatItem[],
+  event: Pick<UsageEvent, 'model' | 'promptTokens' | 'completionTokens' | 'cachedTokens'>
+): ChatItem[] {
+  const index = findTurnUserIndex(messages);
+  if (index === -1) return messages;
+  const updated = [...messages];
+  updated[index] = { ...messages[index], usage: addUsage(messages[index].usage, event) };
+  return updated;
+}
+
+/**
+ * 各轮最终答案对应的本轮用量（按最终答案消息 ID），供最终答案卡片展示
+ */
+export function mapFinalAnswerUsage(messages: ChatItem[]): Record<string, ModelUsage> {
+  const result: Record<string, ModelUsage> = {};
+  let turnUsage: ModelUsage | undefined;
+  for (const message of messages) {
+    if (message.type === 'user') {
+      turnUsage = message.usage;
+    } else if (message.type === 'final_result' && turnUsage) {
+      result[message.id] = turnUsage;
+    }
+  }
+  return result;
+}
+
+/**
+ * 合并多份按模型的用量
+ */
+export function mergeUsage(items: (ModelUsage | undefined)[]): ModelUsage | undefined {
+  let merged: ModelUsage | undefined;
+  for (const usage of items) {
+    if (!usage) continue;
+    for (const [model, tokens] of Object.entries(usage)) {
+      merged = addUsage(merged, { model, ...tokens });
+    }
+  }
+  return merged;
+}
+
+/**
+ * 会话中各轮用量之和（没有任何用量时返回 undefined）
+ */
+export function sumMessageUsage(messages: ChatItem[]): ModelUsage | undefined {
+  return mergeUsage(messages.filter(m => m.type === 'user').map(m => m.usage));
+}
+
+/**
+ * 所有模型的 token 合计
+ */
+export function totalTokens(usage: ModelUsage): TokenUsage {
+  return Object.values(usage).reduce((total, tokens) => ({
+    promptTokens: total.promptTokens + tokens.promptTokens,
+    completionTokens: total.completionTokens + tokens.completionTokens,
+    cachedTokens: total.cachedTokens + tokens.cachedTokens,
+  }), EMPTY_USAGE);
+}
+
+/**
+ * 估算费用（美元）；有模型未配置价格时返回 null，避免显示偏低的金额
+ */
+export function estimateCost(usage: ModelUsage, prices: Record<string, ModelPrice>): number | null {
+  let cost = 0;
+  for (const [model, tokens] of Object.entries(usage)) {
+    const price = prices[model];
+    if (!price) return null;
+    const cached = Math.min(tokens.cachedTokens, tokens.promptTokens);
+    cost += (
+      (tokens.promptTokens - cached) * price.prompt
+      + cached * (price.cached ?? price.prompt)
+      + tokens.completionTokens * price.completion
+    ) / 1_000_000;
+  }
+  return cost;
+}
+
+/**
+ * 1234 -> "1.2k"，1234567 -> "1.23M"
+ */
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(2)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+export function formatCost(cost: number): string {
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
@@ -6,6 +6,7 @@
 import { create } from 'zustand';
 import type { ArtifactInfo } from '../types/events';
 import { getReactArtifactContent, getPlannerArtifactContent } from '../services/sseClient';
+import type { ApiError } from '../services/apiError';
 
 interface ArtifactStore {
   // 侧边栏状态
@@ -18,25 +19,29 @@ interface ArtifactStore {
   content: string;
   // 加载状态
   loading: boolean;
+  // 加载失败的错误
+  error: ApiError | null;
   // 会话信息（用于 API 调用）
   conversationId: string | null;
   mode: 'react' | 'plan' | null;
 
   // Actions
   openArtifact: (conversationId: string, mode: 'react' | 'plan', artifact: ArtifactInfo) => Promise<void>;
+  retry: () => Promise<void>;
   setSidebarWidth: (width: number) => void;
   setContent: (content: string) => void;
   setLoading: (loading: boolean) => void;
   close: () => void;
 }
 
-export const useArtifactStore = create<ArtifactStore>((set) => ({
+export const useArtifactStore = create<ArtifactStore>((set, get) => ({
   // Initial state
   isOpen: false,
   sidebarWidth: 500, // 默认宽度
   currentArtifact: null,
   content: '',
   loading: false,
+  error: null,
   conversationId: null,
   mode: null,
 
@@ -48,22 +53,31 @@ export const useArtifactStore = create<ArtifactStore>((set) => ({
       conversationId,
       mode,
       loading: true,
+      error: null,
       content: '',
     });
 
-    try {
-      // 根据模式调用对应的 API
-      const content = mode === 'react'
-        ? await getReactArtifactContent(conversationId, artifact.name)
-        : await getPlannerArtifactContent(conversationId, artifact.name);
+    // 根据模式调用对应的 API
+    const result = mode === 'react'
+      ? await getReactArtifactContent(conversationId, artifact.name)
+      : await getPlannerArtifactContent(conversationId, artifact.name);
 
-      set({ content, loading: false });
-    } catch (error) {
-      console.error('Failed to load artifact content:', error);
-      set({ content: '加载失败', loading: false });
+    // 加载期间已切换到其他文件或关闭侧边栏，丢弃过期结果
+    if (get().currentArtifact !== artifact) return;
+
+    if (result.ok) {
+      set({ content: result.data, loading: false });
+    } else {
+      set({ error: result.error, loading: false });
     }
   },
 
+  retry: async () => {
+    const { conversationId, mode, currentArtifact, openArtifact } = get();
+    if (!conversationId || !mode || !currentArtifact) return;
+    await openArtifact(conversationId, mode, currentArtifact);
+  },
+
   setSidebarWidth: (width: number) => set({ sidebarWidth: width }),
 
   setContent: (content: string) => set({ content }),
@@ -75,6 +89,7 @@ export const useArtifactStore = create<ArtifactStore>((set) => ({
     currentArtifact: null,
     content: '',
     loading: false,
+    error: null,
     conversationId: null,
     mode: null,
   }),
@@ -0,0 +1,1207 @@
+/**
+ * 聊天会话状态管理 Store
+ * 推理、规划、编程三种模式各自保存一个会话，状态位于应用级 store 中，
+ * 切换路由（/chat ↔ /code）不会丢失消息、进行中的流和编程文件树
+ *
+ * 运行句柄和流式累积缓存不可序列化、也不参与渲染，保存在模块内的 runtimes 中
+ *
+ * thought / final_answer_stream 的高频 chunk 先累积在缓存中，每个动画帧合并提交一次，
+ * 且只替换受影响的消息；其他事件到达前会先提交未写入的 chunk，保证顺序
+ *
+ * 运行中发送的消息进入会话的待发送队列，当前运行正常结束后自动依次发送；
+ * 运行出错或被取消时队列暂停，等待用户继续
+ */
+
+import { create } from 'zustand';
+import type {
+  ChatItem,
+  AgentEvent,
+  CodingEvent,
+  ToolInfo,
+  BDDFeature,
+  GeneratedFile,
+  ArchitectureFile,
+  ArtifactInfo,
+  ToolApprovalDecision,
+  Plan,
+  Attachment,
+  FileMention,
+} from '../types/events';
+import {
+  sendMessage,
+  sendPlannerMessage,
+  sendCodingMessage,
+  getTools,
+  getReactConversation,
+  getPlannerConversation,
+  getCodingConversation,
+  getProject,
+  type AgentRunHandle,
+  type ConversationEvent,
+  type StreamConnectionStatus,
+  type StreamStallStatus,
+  type InvalidStreamEvent,
+  type SSEClientOptions,
+  type ConversationRunOptions,
+} from '../services/sseClient';
+import { ApiError, describeApiError } from '../services/apiError';
+import { useSettingsStore, type RunMode } from './useSettingsStore';
+import { useDiagnosticsStore } from './useDiagnosticsStore';
+import { useToolSelectionStore, getToolSelection, resolveToolNames } from './useToolSelectionStore';
+import { buildChatItems, forkAt, switchBranchAt, findTurnStart } from './conversationTree';
+import { isStepActivity, findCurrentPlanIndex, startPlanStep, completePlanStep } from './planSteps';
+import { appendPlanRevision } from './planRevisions';
+import { addTurnUsage } from './usage';
+import { getProjectFiles } from './projectFiles';
+import { parseFileMentions } from './fileMentions';
+
+// "已恢复" 提示的展示时长
+const RESUMED_NOTICE_DURATION = 3000;
+
+/**
+ * 聊天页的模式（推理 / 规划）
+ */
+export type ChatMode = Exclude<RunMode, 'coding'>;
+
+/**
+ * 输入框中尚未发送的内容
+ */
+export interface InputDraft {
+  text: string;
+  attachments: Attachment[];
+}
+
+const EMPTY_DRAFT: InputDraft = { text: '', attachments: [] };
+
+/**
+ * 运行中排队等待发送的消息
+ */
+export interface QueuedMessage {
+  id: string;
+  input: string;
+  attachments?: Attachment[];
+}
+
+/**
+ * 单个模式的会话状态
+ */
+export interface ChatSession {
+  messages: ChatItem[];
+  // 会话 ID（用于多轮对话）
+  conversationId?: string;
+  isLoading: boolean;
+  // 已请求后端取消，等待 cancelled 事件
+  isCancelling: boolean;
+  // 流式连接状态（断线重连中 / 已恢复）
+  connectionStatus: StreamConnectionStatus | null;
+  // 流停滞（超过当前模式的空闲超时未收到数据）
+  stallStatus: StreamStallStatus | null;
+  // 待发送队列（运行中发送的消息）
+  queue: QueuedMessage[];
+  // 上一次运行出错或被取消，队列暂停自动发送
+  queuePaused: boolean;
+}
+
+/**
+ * 编程模式的工作区（三栏布局右侧展示的内容）
+ */
+export interface CodingWorkspace {
+  bddFeatures: BDDFeature[];
+  architectureFiles: ArchitectureFile[];
+  generatedFiles: GeneratedFile[];
+  generatedTree: unknown;
+  codeSummary: string;
+  projectId?: string;
+}
+
+interface ChatStore {
+  sessions: Record<RunMode, ChatSession>;
+  coding: CodingWorkspace;
+  tools: ToolInfo[];
+  // 聊天页当前的模式与各模式输入框的草稿，切换路由后保留
+  chatMode: ChatMode;
+  drafts: Record<RunMode, InputDraft>;
+
+  // Actions
+  loadTools: () => Promise<void>;
+  setChatMode: (mode: ChatMode) => void;
+  setDraft: (mode: RunMode, text: string) => void;
+  setDraftAttachments: (mode: RunMode, attachments: Attachment[]) => void;
+  send: (mode: RunMode, input: string, attachments?: Attachment[]) => void;
+  editMessage: (mode: RunMode, itemId: string, input: string) => void;
+  regenerate: (mode: RunMode, itemId: string) => void;
+  switchBranch: (mode: RunMode, itemId: string, branchIndex: number) => void;
+  updateQueued: (mode: RunMode, id: string, input: string) => void;
+  removeQueued: (mode: RunMode, id: string) => void;
+  resumeQueue: (mode: RunMode) => void;
+  respondToolApproval: (mode: RunMode, toolCallId: string, decision: ToolApprovalDecision) => Promise<void>;
+  approvePlan: (mode: RunMode, itemId: string, plan: Plan) => Promise<void>;
+  cancel: (mode: RunMode) => Promise<void>;
+  keepWaiting: (mode: RunMode) => void;
+  reconnect: (mode: RunMode) => void;
+  clear: (mode: RunMode) => void;
+  newConversation: (mode: RunMode) => void;
+  loadConversation: (mode: RunMode, id: string) => Promise<ApiError | null>;
+  loadProject: (tree: unknown, id: string, name: string, conversation?: ConversationEvent[]) => void;
+  /** 不经网络直接注入一条已校验的事件（基准测试回放用） */
+  replayEvent: (mode: RunMode, event: AgentEvent | CodingEvent) => void;
+}
+
+// ============================================================================
+// 运行时（不进入 store）
+// ============================================================================
+
+interface SessionRuntime {
+  run: AgentRunHandle | null;
+  // 每次开始或停止运行时递增；旧运行的回调与事件据此忽略
+  generation: number;
+  streamingThoughts: Map<string, ChatItem>;
+  toolCalls: Map<string, ChatItem>;
+  streamingFinalAnswers: Map<string, ChatItem>;
+  resumedTimer: ReturnType<typeof setTimeout> | null;
+  // 已累积、尚未提交到 store 的流式消息
+  pendingChunks: Map<string, ChatItem>;
+  cancelFrame: (() => void) | null;
+  // 规划模式当前执行中的步骤（step_start 与 step_complete 之间）
+  activeStepId: string | null;
+  // 本次运行请求了计划审阅，尚未收到第一版计划
+  planReviewRequested: boolean;
+  // 本次运行出错且之后没有给出最终答案（结束时暂停待发送队列）
+  failed: boolean;
+}
+
+function createRuntime(): SessionRuntime {
+  return {
+    run: null,
+    generation: 0,
+    streamingThoughts: new Map(),
+    toolCalls: new Map(),
+    streamingFinalAnswers: new Map(),
+    resumedTimer: null,
+    pendingChunks: new Map(),
+    cancelFrame: null,
+    activeStepId: null,
+    planReviewRequested: false,
+    failed: false,
+  };
+}
+
+const runtimes: Record<RunMode, SessionRuntime> = {
+  react: createRuntime(),
+  planner: createRuntime(),
+  coding: createRuntime(),
+};
+
+function resetStreamingCaches(runtime: SessionRuntime) {
+  runtime.streamingThoughts.clear();
+  runtime.toolCalls.clear();
+  runtime.streamingFinalAnswers.clear();
+  runtime.pendingChunks.clear();
+  runtime.cancelFrame?.();
+  runtime.cancelFrame = null;
+  runtime.activeStepId = null;
+}
+
+/**
+ * 在下一动画帧执行（非浏览器环境退化为 16ms 定时器），返回取消函数
+ */
+function requestFrame(callback: () => void): () => void {
+  if (typeof requestAnimationFrame === 'function') {
+    const handle = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(handle);
+  }
+  const timer = setTimeout(callback, 16);
+  return () => clearTimeout(timer);
+}
+
+function createSession(): ChatSession {
+  return {
+    messages: [],
+    conversationId: undefined,
+    isLoading: false,
+    isCancelling: false,
+    connectionStatus: null,
+    stallStatus: null,
+    ...EMPTY_QUEUE,
+  };
+}
+
+// 切换到其他会话时丢弃当前会话的待发送队列（队列非空时由 useChat 先向用户确认）
+const EMPTY_QUEUE: Pick<ChatSession, 'queue' | 'queuePaused'> = { queue: [], queuePaused: false };
+
+function createCodingWorkspace(): CodingWorkspace {
+  return {
+    bddFeatures: [],
+    architectureFiles: [],
+    generatedFiles: [],
+    generatedTree: null,
+    codeSummary: '',
+    projectId: undefined,
+  };
+}
+
+// ============================================================================
+// 状态更新辅助
+// ============================================================================
+
+function updateSession(mode: RunMode, patch: Partial<ChatSession> | ((session: ChatSession) => Partial<ChatSession>)) {
+  useChatStore.setState(state => {
+    const session = state.sessions[mode];
+    const changes = typeof patch === 'function' ? patch(session) : patch;
+    return { sessions: { ...state.sessions, [mode]: { ...session, ...changes } } };
+  });
+}
+
+function updateMessages(mode: RunMode, updater: (messages: ChatItem[]) => ChatItem[]) {
+  updateSession(mode, session => ({ messages: updater(session.messages) }));
+}
+
+function appendMessage(mode: RunMode, item: ChatItem) {
+  updateMessages(mode, prev => [...prev, item]);
+}
+
+function appendError(mode: RunMode, content: string) {
+  appendMessage(mode, {
+    id: `error_${Date.now()}`,
+    type: 'error',
+    content,
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * 提交累积的 chunk：复制一次消息数组，从尾部查找并替换受影响的消息
+ */
+function flushChunks(mode: RunMode) {
+  const runtime = runtimes[mode];
+  runtime.cancelFrame?.();
+  runtime.cancelFrame = null;
+  if (runtime.pendingChunks.size === 0) return;
+
+  const pending = [...runtime.pendingChunks.values()];
+  runtime.pendingChunks.clear();
+  updateMessages(mode, prev => {
+    const next = prev.slice();
+    for (const item of pending) {
+      for (let i = next.length - 1; i >= 0; i--) {
+        if (next[i].id === item.id) {
+          next[i] = { ...item };
+          break;
+        }
+      }
+    }
+    return next;
+  });
+}
+
+// 标记流式消息已变化，在下一帧合并提交
+function queueChunk(mode: RunMode, item: ChatItem) {
+  const runtime = runtimes[mode];
+  runtime.pendingChunks.set(item.id, item);
+  if (!runtime.cancelFrame) {
+    runtime.cancelFrame = requestFrame(() => {
+      runtime.cancelFrame = null;
+      flushChunks(mode);
+    });
+  }
+}
+
+function updateCoding(patch: Partial<CodingWorkspace>) {
+  useChatStore.setState(state => ({ coding: { ...state.coding, ...patch } }));
+}
+
+// 更新连接状态；"已恢复" 状态在短暂展示后自动清除
+function updateConnectionStatus(mode: RunMode, status: StreamConnectionStatus | null) {
+  const runtime = runtimes[mode];
+  if (runtime.resumedTimer) {
+    clearTimeout(runtime.resumedTimer);
+    runtime.resumedTimer = null;
+  }
+  updateSession(mode, { connectionStatus: status });
+  if (status?.state === 'resumed') {
+    runtime.resumedTimer = setTimeout(() => {
+      updateSession(mode, { connectionStatus: null });
+      runtime.resumedTimer = null;
+    }, RESUMED_NOTICE_DURATION);
+  }
+}
+
+// 运行被取消：结束加载状态，把本次运行中仍在进行的工具调用（不含已拒绝的）、思考和流式答案标记为已取消
+function markRunCancelled(mode: RunMode) {
+  flushChunks(mode);
+  const runToolCallIds = new Set([...runtimes[mode].toolCalls.values()].map(item => item.id));
+  resetStreamingCaches(runtimes[mode]);
+  updateSession(mode, session => ({
+    messages: session.messages.map(m => {
+      const inFlight = m.type === 'tool_call'
+        ? runToolCallIds.has(m.id) && m.success === undefined && m.approval?.status !== 'denied'
+        : m.isStreaming;
+      return inFlight ? { ...m, isStreaming: false, isCancelled: true } : m;
+    }),
+    isLoading: false,
+    isCancelling: false,
+    stallStatus: null,
+    queuePaused: session.queue.length > 0,
+  }));
+  updateConnectionStatus(mode, null);
+}
+
+/**
+ * 停止当前运行（仅断开本地连接）并重置运行时，用于清空、切换会话等替换会话内容的操作
+ * 之后旧运行迟到的事件与回调都会被忽略
+ */
+function stopRun(mode: RunMode) {
+  const runtime = runtimes[mode];
+  runtime.generation++;
+  runtime.run?.abort();
+  runtime.run = null;
+  flushChunks(mode);
+  resetStreamingCaches(runtime);
+  runtime.planReviewRequested = false;
+  runtime.failed = false;
+  updateSession(mode, { isLoading: false, isCancelling: false, stallStatus: null });
+  updateConnectionStatus(mode, null);
+}
+
+// 执行步骤期间产生的消息标记所属步骤
+function withActiveStep(mode: RunMode, item: ChatItem): ChatItem {
+  const stepId = runtimes[mode].activeStepId;
+  return stepId && isStepActivity(item) ? { ...item, stepId } : item;
+}
+
+// 更新当前计划消息（没有计划时忽略）
+function updatePlanItem(mode: RunMode, updater: (item: ChatItem) => ChatItem) {
+  updateMessages(mode, prev => {
+    const index = findCurrentPlanIndex(prev);
+    if (index === -1) return prev;
+    const updated = [...prev];
+    updated[index] = updater(prev[index]);
+    return updated;
+  });
+}
+
+// 将审批决定写入工具调用消息；批准时使用修改后的参数
+function applyApproval(item: ChatItem, decision: ToolApprovalDecision): ChatItem {
+  return {
+    ...item,
+    args: decision.approved && decision.args ? decision.args : item.args,
+    approval: {
+      status: decision.approved ? 'approved' : 'denied',
+      reason: decision.reason,
+      argsEdited: decision.approved && !!decision.args,
+    },
+  };
+}
+
+// ============================================================================
+// 事件处理
+// ============================================================================
+
+function handleEvent(mode: RunMode, event: AgentEvent) {
+  const runtime = runtimes[mode];
+  if (event.type !== 'thought' && event.type !== 'final_answer_stream') {
+    flushChunks(mode);
+  }
+
+  switch (event.type) {
+    // === 新版 thought 事件（流式） ===
+    case 'thought': {
+      const existing = runtime.streamingThoughts.get(event.thoughtId);
+      if (existing) {
+        // 累积内容
+        existing.content += event.chunk;
+        existing.isComplete = event.isComplete;
+        existing.isStreaming = !event.isComplete;
+        queueChunk(mode, existing);
+      } else if (event.chunk) {
+        // 新的 thought
+        const newThought: ChatItem = withActiveStep(mode, {
+          id: event.thoughtId,
+          type: 'thought',
+          content: event.chunk,
+          isStreaming: !event.isComplete,
+          isComplete: event.isComplete,
+          timestamp: event.timestamp,
+        });
+        runtime.streamingThoughts.set(event.thoughtId, newThought);
+        appendMessage(mode, { ...newThought });
+      }
+      break;
+    }
+
+    // === 普通消息事件（友好提示等） ===
+    case 'normal_message': {
+      const item: ChatItem = withActiveStep(mode, {
+        id: event.messageId,
+        type: 'normal_message',
+        content: event.content,
+        timestamp: event.timestamp,
+      });
+      // 续传时可能重放已收到的消息，按 id 去重
+      updateMessages(mode, prev => prev.some(m => m.id === item.id) ? prev : [...prev, item]);
+      break;
+    }
+
+    // === 新版 tool_call 事件 ===
+    case 'tool_call': {
+      // 后端未标记时按本地审批策略判断
+      const requiresApproval = event.requiresApproval
+        ?? useSettingsStore.getState().approvalTools.includes(event.toolName);
+      const item: ChatItem = withActiveStep(mode, {
+        id: `tool_${event.toolCallId}`,
+        type: 'tool_call',
+        content: event.toolName,
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        args: event.args,
+        ...(requiresApproval ? { approval: { status: 'pending' as const } } : {}),
+        timestamp: event.timestamp,
+      });
+      runtime.toolCalls.set(event.toolCallId, item);
+      updateMessages(mode, prev => prev.some(m => m.id === item.id) ? prev : [...prev, item]);
+      break;
+    }
+
+    // === 新版 tool_call_result 事件 ===
+    case 'tool_call_result': {
+      // 更新对应的 tool_call 消息
+      const existingCall = runtime.toolCalls.get(event.toolCallId);
+      if (existingCall) {
+        updateMessages(mode, prev => prev.map(m => {
+          if (m.id === existingCall.id) {
+            return {
+              ...m,
+              result: event.result,
+              success: event.success,
+              duration: event.duration,
+              // 后端未等待审批就执行了工具
+              approval: m.approval?.status === 'pending' ? undefined : m.approval,
+            };
+          }
+          return m;
+        }));
+      }
+      break;
+    }
+
+    // === 工具审批事件：后端确认收到审批决定 ===
+    case 'tool_approval': {
+      updateMessages(mode, prev => prev.map(m =>
+        m.type === 'tool_call' && m.toolCallId === event.toolCallId
+          ? applyApproval(m, event)
+          : m
+      ));
+      break;
+    }
+
+    // === token 用量：累加到本轮的用户消息 ===
+    case 'usage':
+      updateMessages(mode, prev => addTurnUsage(prev, event));
+      break;
+
+    // === 新版 final_result 事件 ===
+    case 'final_result': {
+      // 清理流式状态
+      runtime.streamingThoughts.forEach(thought => {
+        thought.isStreaming = false;
+      });
+      runtime.streamingThoughts.clear();
+      runtime.toolCalls.clear();
+      runtime.activeStepId = null;
+      runtime.failed = false;
+      const stats = {
+        totalDuration: event.totalDuration,
+        iterationCount: event.iterationCount,
+      };
+
+      // 如果已经有流式最终答案，只需标记完成并清理缓存，不再添加新消息
+      if (runtime.streamingFinalAnswers.size > 0) {
+        const answers = new Map(runtime.streamingFinalAnswers);
+        answers.forEach(answer => {
+          answer.isStreaming = false;
+          answer.isComplete = true;
+          Object.assign(answer, stats);
+        });
+        updateMessages(mode, prev =>
+          prev.map(m => {
+            const streamingAnswer = answers.get(m.id);
+            if (streamingAnswer) {
+              return { ...streamingAnswer };
+            }
+            return m;
+          })
+        );
+        runtime.streamingFinalAnswers.clear();
+      } else {
+        // 没有流式答案（直接给出的最终答案），创建新消息
+        appendMessage(mode, {
+          id: `final_${Date.now()}`,
+          type: 'final_result',
+          content: event.content,
+          ...stats,
+          timestamp: event.timestamp,
+        });
+      }
+      break;
+    }
+
+    // === 新版 final_answer_stream 事件（流式最终答案） ===
+    case 'final_answer_stream': {
+      const existing = runtime.streamingFinalAnswers.get(event.answerId);
+      if (existing) {
+        // 累积内容
+        existing.content += event.chunk;
+        existing.isComplete = event.isComplete;
+        existing.isStreaming = !event.isComplete;
+        queueChunk(mode, existing);
+      } else if (event.chunk) {
+        // 新的 final_answer 流
+        const newFinalAnswer: ChatItem = {
+          id: event.answerId,
+          type: 'final_result',
+          content: event.chunk,
+          isStreaming: !event.isComplete,
+          isComplete: event.isComplete,
+          timestamp: event.timestamp,
+        };
+        runtime.streamingFinalAnswers.set(event.answerId, newFinalAnswer);
+        appendMessage(mode, { ...newFinalAnswer });
+      }
+      break;
+    }
+
+    // === 向后兼容: final_answer 事件 ===
+    case 'final_answer': {
+      runtime.streamingThoughts.clear();
+      appendMessage(mode, {
+        id: `final_${Date.now()}`,
+        type: 'final_result',
+        content: event.content,
+        timestamp: Date.now(),
+      });
+      break;
+    }
+
+    case 'plan_update': {
+      // 请求了审阅时，第一版计划到达后后端暂停等待批准
+      const awaitingReview = event.awaitingReview ?? runtime.planReviewRequested;
+      runtime.planReviewRequested = false;
+      const timestamp = event.timestamp || Date.now();
+      const planItem: ChatItem = {
+        id: `plan_${Date.now()}`,
+        type: 'plan',
+        content: event.plan.goal,
+        plan: event.plan,
+        ...(awaitingReview ? { planReview: 'pending' as const } : {}),
+        timestamp,
+      };
+      updateMessages(mode, prev => {
+        // 同一轮内的重新规划更新已有的计划消息，旧版本保留在修订历史中
+        const existingPlanIndex = findCurrentPlanIndex(prev);
+        if (existingPlanIndex !== -1) {
+          const existing = prev[existingPlanIndex];
+          const updated = [...prev];
+          // 沿用原消息 id，并保留已记录的步骤执行情况与审阅状态
+          updated[existingPlanIndex] = {
+            ...planItem,
+            id: existing.id,
+            timestamp: existing.timestamp,
+            stepRuns: existing.stepRuns,
+            planReview: planItem.planReview ?? existing.planReview,
+            planRevisions: appendPlanRevision(existing.planRevisions, { plan: event.plan, timestamp }),
+          };
+          return updated;
+        }
+        return [...prev, { ...planItem, planRevisions: [{ plan: event.plan, timestamp }] }];
+      });
+      break;
+    }
+
+    case 'error': {
+      runtime.failed = true;
+      appendMessage(mode, {
+        id: `error_${Date.now()}`,
+        type: 'error',
+        content: event.message,
+        timestamp: event.timestamp || Date.now(),
+      });
+      break;
+    }
+
+    // === artifact_event 事件（artifact 文件列表推送） ===
+    case 'artifact_event': {
+      appendMessage(mode, withActiveStep(mode, {
+        id: `artifact_${Date.now()}`,
+        type: 'artifact',
+        content: '',
+        timestamp: event.timestamp,
+        artifacts: event.artifacts as ArtifactInfo[],
+        conversationId: event.conversationId,
+        mode: event.mode,
+      }));
+      break;
+    }
+
+    // === 计划步骤：之后的思考、工具调用等归入该步骤，直到步骤完成 ===
+    case 'step_start': {
+      runtime.activeStepId = event.stepId;
+      updatePlanItem(mode, item => startPlanStep(item, event.stepId, event.timestamp));
+      break;
+    }
+
+    case 'step_complete': {
+      if (runtime.activeStepId === event.stepId) {
+        runtime.activeStepId = null;
+      }
+      updatePlanItem(mode, item => completePlanStep(item, event));
+      break;
+    }
+
+    // === cancelled 事件（后端确认已停止运行） ===
+    case 'cancelled':
+      markRunCancelled(mode);
+      break;
+  }
+}
+
+// === CodingAgent 事件处理 ===
+function handleCodingEvent(event: CodingEvent | AgentEvent) {
+  switch (event.type) {
+    // 处理 bdd_generated 事件
+    case 'bdd_generated':
+      updateCoding({ bddFeatures: event.features });
+      return;
+
+    // 处理 architecture_generated 事件
+    case 'architecture_generated':
+      updateCoding({ architectureFiles: event.files });
+      return;
+
+    // 处理 code_generated 事件
+    case 'code_generated':
+      updateCoding({
+        generatedFiles: event.files,
+        codeSummary: event.summary || '',
+        ...(event.tree ? { generatedTree: event.tree } : {}),
+        ...(event.projectId ? { projectId: event.projectId } : {}),
+      });
+      return;
+
+    // 处理 coding_done 事件
+    case 'coding_done':
+      updateCoding({
+        ...(event.bddFeatures ? { bddFeatures: event.bddFeatures } : {}),
+        ...(event.architecture ? { architectureFiles: event.architecture } : {}),
+        ...(event.generatedFiles ? { generatedFiles: event.generatedFiles } : {}),
+        ...(event.tree ? { generatedTree: event.tree } : {}),
+        ...(event.summary ? { codeSummary: event.summary } : {}),
+        ...(event.projectId ? { projectId: event.projectId } : {}),
+      });
+      return;
+
+    // 处理 phase_complete 事件（向后兼容）
+    case 'phase_complete': {
+      if (!event.data) return;
+      if (event.phase === 'bdd') {
+        updateCoding({ bddFeatures: event.data as BDDFeature[] });
+      } else if (event.phase === 'architect') {
+        updateCoding({ architectureFiles: event.data as ArchitectureFile[] });
+      } else if (event.phase === 'codegen') {
+        const data = event.data as { files?: GeneratedFile[]; tree?: unknown; summary?: string };
+        updateCoding({
+          generatedFiles: data.files || [],
+          codeSummary: data.summary || '',
+          ...(data.tree ? { generatedTree: data.tree } : {}),
+        });
+      }
+      return;
+    }
+
+    // phase_start 仅用于进度提示，当前不渲染
+    case 'phase_start':
+      return;
+
+    // 其他事件（含 plan_update）走普通处理
+    default:
+      handleEvent('coding', event);
+  }
+}
+
+// === 未通过校验的事件：记录诊断，未知类型以原始 JSON 卡片展示 ===
+function handleInvalidEvent(mode: RunMode, invalid: InvalidStreamEvent) {
+  useDiagnosticsStore.getState().report({ ...invalid, source: mode });
+
+  if (invalid.reason === 'unknown_type') {
+    appendMessage(mode, {
+      id: `unknown_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      type: 'unknown',
+      content: invalid.eventType || invalid.event,
+      eventType: invalid.eventType || invalid.event,
+      rawEvent: invalid.raw,
+      timestamp: Date.now(),
+    });
+  }
+}
+
+/**
+ * 各模式共用的流回调：连接状态、停滞、完成与出错
+ * isCurrent 为 false 时（运行已被 stopRun 停止）忽略回调
+ */
+function createRunCallbacks(mode: RunMode, isCurrent: () => boolean): Omit<SSEClientOptions, 'onEvent'> & ConversationRunOptions {
+  const { idleTimeouts } = useSettingsStore.getState();
+  return {
+    onInvalidEvent: (invalid) => isCurrent() && handleInvalidEvent(mode, invalid),
+    onConversationId: (id) => isCurrent() && updateSession(mode, { conversationId: id }),
+    onConnectionChange: (status) => isCurrent() && updateConnectionStatus(mode, status),
+    idleTimeout: idleTimeouts[mode],
+    onStall: (status) => isCurrent() && updateSession(mode, { stallStatus: status }),
+    onDone: () => {
+      if (!isCurrent()) return;
+      flushChunks(mode);
+      const { failed } = runtimes[mode];
+      updateSession(mode, session => ({
+        isLoading: false,
+        stallStatus: null,
+        queuePaused: session.queuePaused || (failed && session.queue.length > 0),
+      }));
+      runtimes[mode].streamingThoughts.clear();
+      sendNextQueued(mode);
+    },
+    onError: (error) => {
+      if (!isCurrent()) return;
+      flushChunks(mode);
+      updateSession(mode, session => ({
+        isLoading: false,
+        stallStatus: null,
+        queuePaused: session.queue.length > 0,
+      }));
+      updateConnectionStatus(mode, null);
+      appendError(mode, error);
+    },
+  };
+}
+
+// 用户消息在各模式下的展示前缀
+const USER_MESSAGE_PREFIX: Record<RunMode, string> = {
+  react: '',
+  planner: '🎯 目标: ',
+  coding: '💻 需求: ',
+};
+
+/**
+ * 编程需求中 @ 引用的项目文件（只识别当前项目中存在的路径）
+ */
+function getCodingMentions(mode: RunMode, input: string): FileMention[] {
+  if (mode !== 'coding') return [];
+  const { generatedTree, generatedFiles } = useChatStore.getState().coding;
+  const paths = getProjectFiles(generatedTree, generatedFiles).map(file => file.path);
+  return parseFileMentions(input, paths);
+}
+
+function createUserItem(mode: RunMode, input: string, attachments?: Attachment[]): ChatItem {
+  const mentions = getCodingMentions(mode, input);
+  return {
+    id: `user_${Date.now()}`,
+    type: 'user',
+    content: `${USER_MESSAGE_PREFIX[mode]}${input}`,
+    input,
+    ...(attachments?.length ? { attachments } : {}),
+    ...(mentions.length ? { mentions } : {}),
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * 在 index 处的用户消息分叉，并以 input 从该轮重新运行（沿用原消息的附件）
+ */
+function forkAndRun(mode: RunMode, index: number, input: string) {
+  const session = useChatStore.getState().sessions[mode];
+  const fromTurn = session.messages.slice(0, index).filter(m => m.type === 'user').length;
+  const userItem = createUserItem(mode, input, session.messages[index].attachments);
+
+  resetStreamingCaches(runtimes[mode]);
+  updateSession(mode, {
+    messages: forkAt(session.messages, index, session.conversationId, userItem),
+  });
+  // 从第一轮分叉时无需后端支持：直接开始新会话；否则后端为分叉分配新会话（见 ConversationRunOptions.fromTurn）
+  startRun(mode, userItem, fromTurn === 0 ? undefined : session.conversationId, fromTurn);
+}
+
+/**
+ * 发送队列中的第一条消息（正在运行或队列暂停时不发送）
+ */
+function sendNextQueued(mode: RunMode) {
+  const session = useChatStore.getState().sessions[mode];
+  const [next, ...rest] = session.queue;
+  if (!next || session.isLoading || session.queuePaused) return;
+
+  updateSession(mode, { queue: rest });
+  useChatStore.getState().send(mode, next.input, next.attachments);
+}
+
+/**
+ * 开始一次运行（用户消息已写入会话）
+ */
+function startRun(
+  mode: RunMode,
+  userItem: ChatItem,
+  conversationId: string | undefined,
+  fromTurn?: number
+) {
+  const input = userItem.input ?? '';
+  const runtime = runtimes[mode];
+  const generation = ++runtime.generation;
+  const isCurrent = () => runtime.generation === generation;
+  const { tools, coding } = useChatStore.getState();
+  updateSession(mode, { isLoading: true, conversationId });
+  updateConnectionStatus(mode, null);
+  runtime.streamingThoughts.clear();
+  runtime.toolCalls.clear();
+  runtime.failed = false;
+
+  const callbacks = {
+    ...createRunCallbacks(mode, isCurrent),
+    fromTurn,
+    requireApproval: useSettingsStore.getState().approvalTools,
+    attachments: userItem.attachments,
+  };
+
+  // 推理 / 规划模式只发送用户为该会话选择的工具；新会话拿到 ID 后记录本次选择
+  const selection = getToolSelection(useToolSelectionStore.getState(), mode, conversationId);
+  const toolNames = resolveToolNames(tools, selection);
+  if (mode !== 'coding') {
+    callbacks.onConversationId = (id) => {
+      if (!isCurrent()) return;
+      updateSession(mode, { conversationId: id });
+      useToolSelectionStore.getState().rememberConversation(mode, id, selection);
+    };
+  }
+
+  if (mode === 'react') {
+    runtime.run = sendMessage(input, toolNames, conversationId, {
+      ...callbacks,
+      onEvent: (event) => isCurrent() && handleEvent('react', event),
+    });
+  } else if (mode === 'planner') {
+    const { planReview } = useSettingsStore.getState();
+    runtime.planReviewRequested = planReview;
+    runtime.run = sendPlannerMessage(input, toolNames, conversationId, {
+      ...callbacks,
+      reviewPlan: planReview,
+      onEvent: (event) => isCurrent() && handleEvent('planner', event),
+    });
+  } else {
+    // 保留现有文件作为上下文，不清空 generatedFiles（支持多轮）
+    updateCoding({
+      bddFeatures: [],
+      architectureFiles: [],
+      generatedTree: null,
+      codeSummary: '',
+    });
+    // Pass only projectId - backend will auto-load project files
+    runtime.run = sendCodingMessage(input, coding.projectId, conversationId, {
+      ...callbacks,
+      focusFiles: userItem.mentions,
+      onEvent: (event) => isCurrent() && handleCodingEvent(event),
+    });
+  }
+}
+
+export const useChatStore = create<ChatStore>((set, get) => ({
+  // Initial state
+  sessions: {
+    react: createSession(),
+    planner: createSession(),
+    coding: createSession(),
+  },
+  coding: createCodingWorkspace(),
+  tools: [],
+  chatMode: 'react',
+  drafts: { react: EMPTY_DRAFT, planner: EMPTY_DRAFT, coding: EMPTY_DRAFT },
+
+  // Actions
+  loadTools: async () => {
+    const result = await getTools();
+    set({ tools: result.ok ? result.data : [] });
+  },
+
+  setChatMode: (chatMode) => set({ chatMode }),
+
+  setDraft: (mode, text) => set(state => ({
+    drafts: { ...state.drafts, [mode]: { ...state.drafts[mode], text } },
+  })),
+
+  setDraftAttachments: (mode, attachments) => set(state => ({
+    drafts: { ...state.drafts, [mode]: { ...state.drafts[mode], attachments } },
+  })),
+
+  // 发送消息；正在运行时加入待发送队列
+  send: (mode, input, attachments) => {
+    const session = get().sessions[mode];
+    if (!input.trim() && !attachments?.length) return;
+    if (session.isLoading) {
+      updateSession(mode, prev => ({
+        queue: [...prev.queue, { id: `queued_${crypto.randomUUID()}`, input, attachments }],
+      }));
+      return;
+    }
+
+    const userItem = createUserItem(mode, input, attachments);
+    updateSession(mode, prev => ({
+      messages: [...prev.messages, userItem],
+    }));
+    startRun(mode, userItem, session.conversationId);
+  },
+
+  // 编辑用户消息并从该轮重新生成；原来的后续内容保留为分支
+  editMessage: (mode, itemId, input) => {
+    const { messages, isLoading } = get().sessions[mode];
+    if (!input.trim() || isLoading) return;
+
+    const index = messages.findIndex(m => m.id === itemId);
+    if (messages[index]?.type !== 'user') return;
+    forkAndRun(mode, index, input);
+  },
+
+  // 重新生成某个回答所在的轮次（相同输入），原回答保留为分支
+  regenerate: (mode, itemId) => {
+    const { messages, isLoading } = get().sessions[mode];
+    if (isLoading) return;
+
+    const index = findTurnStart(messages, messages.findIndex(m => m.id === itemId));
+    if (index === -1) return;
+    const userItem = messages[index];
+    forkAndRun(mode, index, userItem.input ?? userItem.content);
+  },
+
+  // 切换分叉点展示的分支，同时切换到该分支对应的后端会话
+  switchBranch: (mode, itemId, branchIndex) => {
+    const session = get().sessions[mode];
+    if (session.isLoading) return;
+
+    const index = session.messages.findIndex(m => m.id === itemId);
+    const switched = switchBranchAt(session.messages, index, branchIndex, session.conversationId);
+    if (switched) {
+      updateSession(mode, { messages: switched.messages, conversationId: switched.conversationId });
+    }
+  },
+
+  // 修改排队中的消息
+  updateQueued: (mode, id, input) => {
+    if (!input.trim()) return;
+    updateSession(mode, session => ({
+      queue: session.queue.map(m => m.id === id ? { ...m, input } : m),
+    }));
+  },
+
+  // 移除排队中的消息；队列清空时不再处于暂停状态
+  removeQueued: (mode, id) => {
+    updateSession(mode, session => {
+      const queue = session.queue.filter(m => m.id !== id);
+      return { queue, queuePaused: session.queuePaused && queue.length > 0 };
+    });
+  },
+
+  // 出错或取消后继续发送队列
+  resumeQueue: (mode) => {
+    updateSession(mode, { queuePaused: false });
+    sendNextQueued(mode);
+  },
+
+  // 回复工具审批：先在本地展示决定，发送失败时恢复为待审批
+  respondToolApproval: async (mode, toolCallId, decision) => {
+    const run = runtimes[mode].run;
+    const item = get().sessions[mode].messages.find(m => m.type === 'tool_call' && m.toolCallId === toolCallId);
+    if (!run || item?.approval?.status !== 'pending') return;
+
+    updateMessages(mode, prev => prev.map(m => m.id === item.id ? applyApproval(m, decision) : m));
+    const error = await run.send({ type: 'approval', toolCallId, ...decision });
+    if (error) {
+      updateMessages(mode, prev => prev.map(m => m.id === item.id ? { ...m, args: item.args, approval: item.approval } : m));
+      appendError(mode, `审批发送失败：${describeApiError(error)}`);
+    }
+  },
+
+  // 批准（可能已编辑的）计划，后端以该计划开始执行；发送失败时恢复为待审阅
+  approvePlan: async (mode, itemId, plan) => {
+    const run = runtimes[mode].run;
+    const item = get().sessions[mode].messages.find(m => m.id === itemId);
+    if (!run || item?.planReview !== 'pending') return;
+
+    updateMessages(mode, prev => prev.map(m => m.id === itemId ? {
+      ...m,
+      plan,
+      content: plan.goal,
+      planReview: 'approved',
+      planRevisions: appendPlanRevision(m.planRevisions, { plan, timestamp: Date.now(), edited: true }),
+    } : m));
+    const error = await run.send({ type: 'plan_approval', plan });
+    if (error) {
+      updateMessages(mode, prev => prev.map(m =>
+        m.id === itemId
+          ? { ...m, plan: item.plan, content: item.content, planReview: 'pending', planRevisions: item.planRevisions }
+          : m
+      ));
+      appendError(mode, `计划批准发送失败：${describeApiError(error)}`);
+    }
+  },
+
+  // 取消运行：通知后端停止并等待 cancelled 事件，失败或超时时仅断开本地连接
+  cancel: async (mode) => {
+    const runtime = runtimes[mode];
+    const run = runtime.run;
+    const { isLoading, isCancelling } = get().sessions[mode];
+    if (!run || !isLoading || isCancelling) return;
+
+    updateSession(mode, { isCancelling: true });
+    const error = await run.cancel();
+    // 等待期间会话已被清空或切换（运行已停止）
+    if (runtime.run !== run) return;
+    runtime.run = null;
+    markRunCancelled(mode);
+
+    if (error) {
+      appendError(mode, `后端未确认取消（${describeApiError(error)}），已断开连接，后端可能仍在运行`);
+    }
+  },
+
+  // 停滞时继续等待（重新计时）
+  keepWaiting: (mode) => {
+    runtimes[mode].run?.keepWaiting();
+  },
+
+  // 停滞时断开并立即续传
+  reconnect: (mode) => {
+    if (runtimes[mode].run?.reconnect()) {
+      updateSession(mode, { stallStatus: null });
+    }
+  },
+
+  // 清空会话（停止进行中的运行）；编程模式同时清空工作区
+  clear: (mode) => {
+    stopRun(mode);
+    updateSession(mode, { messages: [], ...EMPTY_QUEUE, conversationId: undefined });
+    if (mode === 'coding') {
+      set({ coding: createCodingWorkspace() });
+    }
+  },
+
+  // 开始新会话；编程模式下保留当前项目文件
+  newConversation: (mode) => {
+    if (mode !== 'coding') {
+      get().clear(mode);
+      return;
+    }
+    stopRun('coding');
+    updateSession('coding', { messages: [], ...EMPTY_QUEUE, conversationId: undefined });
+    updateCoding({ bddFeatures: [], architectureFiles: [], codeSummary: '' });
+  },
+
+  loadConversation: async (mode, id) => {
+    // 加载推理模式会话
+    if (mode === 'react') {
+      const result = await getReactConversation(id);
+      if (!result.ok) return result.error;
+
+      stopRun('react');
+      updateSession('react', {
+        ...EMPTY_QUEUE,
+        conversationId: id,
+        messages: buildChatItems(result.data.events, id, 'react', result.data.activeTurnId),
+      });
+      return null;
+    }
+
+    // 加载规划模式会话
+    if (mode === 'planner') {
+      const result = await getPlannerConversation(id);
+      if (!result.ok) return result.error;
+
+      const data = result.data;
+      if (!data.conversation) {
+        return new ApiError('http', 'Conversation not found', {
+          path: `/api/planner/conversation/${id}`,
+          status: 404,
+        });
+      }
+
+      const chatItems = buildChatItems(data.conversation.events, id, 'plan', data.conversation.activeTurnId);
+      stopRun('planner');
+
+      // 检查转换后的消息中是否已经包含计划卡片
+      const hasPlanInMessages = chatItems.some(m => m.type === 'plan');
+
+      // 如果消息中没有计划卡片但 data.plan 存在（针对旧会话），则作为回退添加
+      if (!hasPlanInMessages && data.plan) {
+        const fallbackPlanItem: ChatItem = {
+          id: `plan_fallback_${Date.now()}`,
+          type: 'plan',
+          content: data.plan.goal,
+          plan: data.plan,
+          timestamp: data.conversation.metadata.createdAt ? new Date(data.conversation.metadata.createdAt).getTime() : Date.now(),
+        };
+        updateSession('planner', { ...EMPTY_QUEUE, conversationId: id, messages: [fallbackPlanItem, ...chatItems] });
+      } else {
+        updateSession('planner', { ...EMPTY_QUEUE, conversationId: id, messages: chatItems });
+      }
+      return null;
+    }
+
+    // 加载编程模式会话；会话属于其他项目时一并加载该项目的文件树
+    const result = await getCodingConversation(id);
+    if (!result.ok) return result.error;
+
+    const data = result.data;
+    if (data.projectId && data.projectId !== get().coding.projectId) {
+      const project = await getProject(data.projectId);
+      if (!project.ok) return project.error;
+      stopRun('coding');
+      updateCoding({
+        generatedTree: project.data.tree,
+        projectId: data.projectId,
+        codeSummary: `已加载项目: ${project.data.name}`,
+      });
+    }
+
+    stopRun('coding');
+    updateCoding({ bddFeatures: [], architectureFiles: [] });
+    updateSession('coding', {
+      ...EMPTY_QUEUE,
+      conversationId: id,
+      messages: buildChatItems(data.events, id, undefined, data.activeTurnId),
+    });
+    return null;
+  },
+
+  // 加载已保存的项目
+  loadProject: (tree, id, name, conversation) => {
+    const switched = id !== get().coding.projectId;
+    if (switched) stopRun('coding');
+    // 清空 BDD 和架构（因为加载的是已保存项目）
+    updateCoding({
+      generatedTree: tree,
+      projectId: id,
+      codeSummary: `已加载项目: ${name}`,
+      bddFeatures: [],
+      architectureFiles: [],
+    });
+
+    // 编程会话属于项目：切换项目后开始新的会话并恢复其对话历史；
+    // 重新加载同一项目只刷新文件树，不打断运行，保留当前会话、消息与待发送队列
+    if (switched) {
+      updateSession('coding', {
+        ...EMPTY_QUEUE,
+        conversationId: undefined,
+        messages: conversation && conversation.length > 0 ? buildChatItems(conversation) : [],
+      });
+    }
+  },
+
+  replayEvent: (mode, event) => {
+    if (mode === 'coding') {
+      handleCodingEvent(event);
+    } else {
+      handleEvent(mode, event as AgentEvent);
+    }
+  },
+}));
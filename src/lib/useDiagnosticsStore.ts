@@ -0,0 +1,47 @@
+/**
+ * 事件诊断 Store
+ * 记录未通过运行时校验的流式事件，供开发调试面板展示
+ */
+
+import { create } from 'zustand';
+import type { EventValidationIssue } from './eventValidation';
+
+// 最多保留的诊断条目数
+const MAX_DIAGNOSTICS = 200;
+
+export interface EventDiagnostic extends EventValidationIssue {
+  id: string;
+  /** 来源流（react / planner / coding） */
+  source: 'react' | 'planner' | 'coding';
+  /** SSE 事件名 */
+  event: string;
+  timestamp: number;
+}
+
+interface DiagnosticsStore {
+  diagnostics: EventDiagnostic[];
+
+  // Actions
+  report: (diagnostic: Omit<EventDiagnostic, 'id' | 'timestamp'>) => void;
+  clear: () => void;
+}
+
+let diagnosticSeq = 0;
+
+export const useDiagnosticsStore = create<DiagnosticsStore>((set) => ({
+  // Initial state
+  diagnostics: [],
+
+  // Actions
+  report: (diagnostic) => {
+    console.warn(`[Diagnostics] ${diagnostic.source} event "${diagnostic.event}" rejected:`, diagnostic.errors, diagnostic.raw);
+    set(state => ({
+      diagnostics: [
+        ...state.diagnostics,
+        { ...diagnostic, id: `diag_${++diagnosticSeq}`, timestamp: Date.now() },
+      ].slice(-MAX_DIAGNOSTICS),
+    }));
+  },
+
+  clear: () => set({ diagnostics: [] }),
+}));
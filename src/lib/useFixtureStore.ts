@@ -0,0 +1,180 @@
+/**
+ * SSE 录制/回放 Fixture Store
+ * 保存从真实后端录制的流式事件与 REST 响应，供离线 Mock 后端回放
+ * 持久化到 localStorage：录制数量有上限（超出时丢弃最早的），写入失败（如存储空间不足）时记录 saveError
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+// 最多保存的流式录制与 REST 响应数量
+export const MAX_STREAM_FIXTURES = 50;
+export const MAX_REST_FIXTURES = 100;
+
+/**
+ * 只保留最近的 max 条
+ */
+function keepLatest<T>(items: T[], max: number): T[] {
+  return items.length > max ? items.slice(items.length - max) : items;
+}
+
+/**
+ * 录制的单条 SSE 消息
+ */
+export interface RecordedSSEMessage {
+  /** 相对请求开始的时间（毫秒） */
+  offset: number;
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * 一次完整的流式请求录制
+ */
+export interface StreamFixture {
+  id: string;
+  /** 请求路径，如 /api/react */
+  path: string;
+  /** 请求体 */
+  request: Record<string, unknown>;
+  recordedAt: number;
+  messages: RecordedSSEMessage[];
+}
+
+/**
+ * 一次 REST 响应录制（按 method + path 唯一）
+ */
+export interface RestFixture {
+  method: string;
+  path: string;
+  status: number;
+  body: unknown;
+  recordedAt: number;
+}
+
+/**
+ * 可导入/导出的 Fixture 文件格式
+ */
+export interface FixtureFile {
+  version: 1;
+  streams: StreamFixture[];
+  rest: RestFixture[];
+}
+
+interface FixtureStore {
+  // 是否正在录制
+  isRecording: boolean;
+  // 回放倍速（0 表示不等待，立即回放）
+  replaySpeed: number;
+  streams: StreamFixture[];
+  rest: RestFixture[];
+  // 最近一次保存到 localStorage 失败的原因（成功后清除）
+  saveError: string | null;
+
+  // Actions
+  setRecording: (isRecording: boolean) => void;
+  setReplaySpeed: (speed: number) => void;
+  addStream: (fixture: StreamFixture) => void;
+  upsertRest: (fixture: RestFixture) => void;
+  removeStream: (id: string) => void;
+  removeRest: (method: string, path: string) => void;
+  importFixtures: (file: FixtureFile) => void;
+  exportFixtures: () => FixtureFile;
+  clear: () => void;
+}
+
+export const useFixtureStore = create<FixtureStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      isRecording: false,
+      replaySpeed: 1,
+      streams: [],
+      rest: [],
+      saveError: null,
+
+      // Actions
+      setRecording: (isRecording: boolean) => set({ isRecording }),
+
+      setReplaySpeed: (replaySpeed: number) => set({ replaySpeed }),
+
+      addStream: (fixture: StreamFixture) => set(state => ({
+        streams: keepLatest([...state.streams, fixture], MAX_STREAM_FIXTURES),
+      })),
+
+      upsertRest: (fixture: RestFixture) => set(state => ({
+        rest: keepLatest([
+          ...state.rest.filter(r => r.method !== fixture.method || r.path !== fixture.path),
+          fixture,
+        ], MAX_REST_FIXTURES),
+      })),
+
+      removeStream: (id: string) => set(state => ({
+        streams: state.streams.filter(s => s.id !== id),
+      })),
+
+      removeRest: (method: string, path: string) => set(state => ({
+        rest: state.rest.filter(r => r.method !== method || r.path !== path),
+      })),
+
+      importFixtures: (file: FixtureFile) => set(state => {
+        const streamIds = new Set(file.streams.map(s => s.id));
+        const restKeys = new Set(file.rest.map(r => `${r.method} ${r.path}`));
+        return {
+          streams: keepLatest(
+            [...state.streams.filter(s => !streamIds.has(s.id)), ...file.streams],
+            MAX_STREAM_FIXTURES
+          ),
+          rest: keepLatest(
+            [...state.rest.filter(r => !restKeys.has(`${r.method} ${r.path}`)), ...file.rest],
+            MAX_REST_FIXTURES
+          ),
+        };
+      }),
+
+      exportFixtures: () => ({
+        version: 1,
+        streams: get().streams,
+        rest: get().rest,
+      }),
+
+      clear: () => set({ streams: [], rest: [] }),
+    }),
+    {
+      name: 'agent-ui-fixtures',
+      storage: createJSONStorage(() => ({
+        getItem: (name) => localStorage.getItem(name),
+        setItem: (name, value) => {
+          try {
+            localStorage.setItem(name, value);
+            setSaveError(null);
+          } catch (error) {
+            console.warn('[Fixture] Failed to save fixtures:', error);
+            setSaveError(error instanceof DOMException && error.name === 'QuotaExceededError'
+              ? '本地存储空间不足，最新的录制未能保存，请删除部分录制或导出后清空'
+              : '录制未能保存到本地存储');
+          }
+        },
+        removeItem: (name) => localStorage.removeItem(name),
+      })),
+      partialize: ({ isRecording, replaySpeed, streams, rest }) => ({ isRecording, replaySpeed, streams, rest }),
+    }
+  )
+);
+
+// 状态变化时才更新，避免保存失败时 setState 再次触发持久化而循环
+function setSaveError(saveError: string | null) {
+  if (useFixtureStore.getState().saveError !== saveError) {
+    useFixtureStore.setState({ saveError });
+  }
+}
+
+/**
+ * 校验导入的 Fixture 文件结构
+ */
+export function isFixtureFile(value: unknown): value is FixtureFile {
+  if (typeof value !== 'object' || value === null) return false;
+  const file = value as Partial<FixtureFile>;
+  return file.version === 1 && Array.isArray(file.streams) && Array.isArray(file.rest);
+}
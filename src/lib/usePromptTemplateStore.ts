@@ -0,0 +1,150 @@
+/**
+ * 提示词模板库 Store
+ * 用户维护的提示词模板，持久化到 localStorage；模板内容可包含 {{变量}}，插入输入框前填写
+ * 空会话的建议提示词与输入框的模板选择都来自这里
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { RunMode } from './useSettingsStore';
+
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  /** 模板内容，{{name}} 为变量 */
+  content: string;
+  /** 适用的模式，空数组表示全部模式 */
+  modes: RunMode[];
+  tags: string[];
+  updatedAt: number;
+}
+
+/**
+ * 新建或编辑模板时填写的字段
+ */
+export type PromptTemplateDraft = Pick<PromptTemplate, 'title' | 'content' | 'modes' | 'tags'>;
+
+/**
+ * 可导入/导出的模板文件格式
+ */
+export interface PromptTemplateFile {
+  version: 1;
+  templates: PromptTemplate[];
+}
+
+// {{name}}，变量名两侧允许空白
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * 模板中的变量名（按首次出现的顺序去重）
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(TEMPLATE_VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * 用变量值替换模板中的 {{name}}；未填写的变量替换为空
+ */
+export function fillTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(TEMPLATE_VARIABLE_PATTERN, (_, name: string) => values[name] ?? '');
+}
+
+export function getTemplatesForMode(templates: PromptTemplate[], mode: RunMode): PromptTemplate[] {
+  return templates.filter(t => t.modes.length === 0 || t.modes.includes(mode));
+}
+
+function createTemplate(draft: PromptTemplateDraft, id = `template_${crypto.randomUUID()}`): PromptTemplate {
+  return { id, ...draft, updatedAt: Date.now() };
+}
+
+// 内置的初始模板（可编辑、删除）
+const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  createTemplate({ title: '解释概念', content: '用通俗的语言解释 {{概念}}，并举一个例子', modes: ['react'], tags: ['示例'] }, 'default_explain'),
+  createTemplate({ title: '方案对比', content: '比较 {{方案A}} 和 {{方案B}} 的优缺点，并给出选择建议', modes: ['react'], tags: ['示例'] }, 'default_compare'),
+  createTemplate({ title: '分步计划', content: '为「{{目标}}」制定一个分步执行计划，每一步说明要做什么和预期结果', modes: ['planner'], tags: ['示例'] }, 'default_plan'),
+  createTemplate({ title: 'React 登录页面', content: '帮我写一个 React 登录页面', modes: ['coding'], tags: ['示例'] }, 'default_login'),
+  createTemplate({ title: '待办事项清单', content: '待办事项清单 (Todo List)', modes: ['coding'], tags: ['示例'] }, 'default_todo'),
+  createTemplate({ title: '个人博客模板', content: '个人博客模板', modes: ['coding'], tags: ['示例'] }, 'default_blog'),
+  createTemplate({ title: '实时天气仪表盘', content: '实时天气仪表盘', modes: ['coding'], tags: ['示例'] }, 'default_weather'),
+  createTemplate({ title: '贪吃蛇小游戏', content: '贪吃蛇小游戏', modes: ['coding'], tags: ['示例'] }, 'default_snake'),
+  createTemplate({ title: 'Markdown 编辑器', content: 'Markdown 编辑器', modes: ['coding'], tags: ['示例'] }, 'default_markdown'),
+  createTemplate({ title: '组件开发', content: '用 React + TypeScript 实现一个 {{组件名}} 组件，要求：{{需求}}', modes: ['coding'], tags: ['示例'] }, 'default_component'),
+];
+
+interface PromptTemplateStore {
+  templates: PromptTemplate[];
+
+  // Actions
+  addTemplate: (draft: PromptTemplateDraft) => void;
+  updateTemplate: (id: string, draft: PromptTemplateDraft) => void;
+  deleteTemplate: (id: string) => void;
+  importTemplates: (file: PromptTemplateFile) => void;
+  exportTemplates: () => PromptTemplateFile;
+}
+
+export const usePromptTemplateStore = create<PromptTemplateStore>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      templates: DEFAULT_TEMPLATES,
+
+      // Actions
+      addTemplate: (draft: PromptTemplateDraft) => set(state => ({
+        templates: [...state.templates, createTemplate(draft)],
+      })),
+
+      updateTemplate: (id: string, draft: PromptTemplateDraft) => set(state => ({
+        templates: state.templates.map(t => t.id === id ? createTemplate(draft, id) : t),
+      })),
+
+      deleteTemplate: (id: string) => set(state => ({
+        templates: state.templates.filter(t => t.id !== id),
+      })),
+
+      // 同 ID 的模板以导入的为准；缺少修改时间的记为导入时间
+      importTemplates: (file: PromptTemplateFile) => set(state => {
+        const ids = new Set(file.templates.map(t => t.id));
+        const now = Date.now();
+        const imported = file.templates.map(t => typeof t.updatedAt === 'number' ? t : { ...t, updatedAt: now });
+        return {
+          templates: [...state.templates.filter(t => !ids.has(t.id)), ...imported],
+        };
+      }),
+
+      exportTemplates: () => ({
+        version: 1,
+        templates: get().templates,
+      }),
+    }),
+    {
+      name: 'agent-ui-prompt-templates',
+    }
+  )
+);
+
+const RUN_MODES: RunMode[] = ['react', 'planner', 'coding'];
+
+function isPromptTemplate(value: unknown): value is PromptTemplate {
+  if (typeof value !== 'object' || value === null) return false;
+  const template = value as Partial<Record<keyof PromptTemplate, unknown>>;
+  return typeof template.id === 'string'
+    && typeof template.title === 'string'
+    && typeof template.content === 'string'
+    && Array.isArray(template.modes)
+    && template.modes.every(mode => RUN_MODES.includes(mode))
+    && Array.isArray(template.tags)
+    && template.tags.every(tag => typeof tag === 'string');
+}
+
+/**
+ * 校验导入的模板文件结构（updatedAt 可缺省，导入时补上）
+ */
+export function isPromptTemplateFile(value: unknown): value is PromptTemplateFile {
+  if (typeof value !== 'object' || value === null) return false;
+  const file = value as Partial<PromptTemplateFile>;
+  return file.version === 1 && Array.isArray(file.templates) && file.templates.every(isPromptTemplate);
+}
@@ -0,0 +1,199 @@
+/**
+ * 应用设置 Store
+ * 使用 zustand 管理后端连接配置（Profile），并持久化到 localStorage
+ * 内置 "离线 Mock" 配置，用于回放录制的 Fixture
+ * 另含按运行模式区分的流式空闲超时（停滞检测）、需要人工审批的工具策略、规划模式的计划审阅开关，
+ * 以及用于估算费用的模型价格表
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * agent 运行的传输方式
+ * - sse: POST + Server-Sent Events（单向，客户端消息另行 POST）
+ * - websocket: 双向连接，客户端消息走同一连接
+ */
+export type TransportKind = 'sse' | 'websocket';
+
+/**
+ * 后端连接配置
+ */
+export interface ConnectionProfile {
+  id: string;
+  /** 显示名称 */
+  name: string;
+  /** 后端地址，例如 http://localhost:3002 */
+  baseUrl: string;
+  /** 可选的鉴权请求头 */
+  authHeader?: {
+    name: string;
+    value: string;
+  };
+  /** 请求超时（毫秒），流式请求只作用于建立连接阶段 */
+  timeout: number;
+  /** agent 运行的传输方式，默认 sse；REST 接口不受影响 */
+  transport?: TransportKind;
+  /** 离线 Mock 模式：不访问网络，回放本地录制的 Fixture */
+  mock?: boolean;
+}
+
+export const DEFAULT_PROFILE_ID = 'local';
+
+export const DEFAULT_PROFILE: ConnectionProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: '本地',
+  baseUrl: 'http://localhost:3002',
+  timeout: 30000,
+};
+
+export const MOCK_PROFILE: ConnectionProfile = {
+  id: 'mock',
+  name: '离线 Mock',
+  baseUrl: 'mock://fixtures',
+  timeout: 30000,
+  mock: true,
+};
+
+/**
+ * 运行模式
+ */
+export type RunMode = 'react' | 'planner' | 'coding';
+
+/**
+ * 默认空闲超时（毫秒）：编程模式的单步（生成代码等）耗时远长于推理模式
+ */
+export const DEFAULT_IDLE_TIMEOUTS: Record<RunMode, number> = {
+  react: 60_000,
+  planner: 120_000,
+  coding: 600_000,
+};
+
+/**
+ * 模型价格（美元 / 百万 token）
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+  /** 命中缓存的 prompt token 价格，未设置时按 prompt 计价 */
+  cached?: number;
+}
+
+interface SettingsStore {
+  // 连接配置列表
+  profiles: ConnectionProfile[];
+  // 当前激活的配置 ID
+  activeProfileId: string;
+  // 各模式的空闲超时（毫秒），0 表示不检测
+  idleTimeouts: Record<RunMode, number>;
+  // 执行前需要人工审批的工具名
+  approvalTools: string[];
+  // 规划模式执行前先审阅计划
+  planReview: boolean;
+  // 按模型名配置的价格，未配置的模型不估算费用
+  modelPrices: Record<string, ModelPrice>;
+
+  // Actions
+  setActiveProfile: (id: string) => void;
+  saveProfile: (profile: ConnectionProfile) => void;
+  deleteProfile: (id: string) => void;
+  setIdleTimeout: (mode: RunMode, timeout: number) => void;
+  setToolApproval: (toolName: string, required: boolean) => void;
+  setPlanReview: (enabled: boolean) => void;
+  setModelPrice: (model: string, price: ModelPrice) => void;
+  deleteModelPrice: (model: string) => void;
+}
+
+export const useSettingsStore = create<SettingsStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      profiles: [DEFAULT_PROFILE, MOCK_PROFILE],
+      activeProfileId: DEFAULT_PROFILE_ID,
+      idleTimeouts: DEFAULT_IDLE_TIMEOUTS,
+      approvalTools: [],
+      planReview: false,
+      modelPrices: {},
+
+      // Actions
+      setActiveProfile: (id: string) => set({ activeProfileId: id }),
+
+      saveProfile: (profile: ConnectionProfile) => set(state => {
+        const exists = state.profiles.some(p => p.id === profile.id);
+        return {
+          profiles: exists
+            ? state.profiles.map(p => p.id === profile.id ? profile : p)
+            : [...state.profiles, profile],
+        };
+      }),
+
+      deleteProfile: (id: string) => set(state => {
+        // 至少保留一个配置
+        if (state.profiles.length <= 1) return state;
+        const profiles = state.profiles.filter(p => p.id !== id);
+        return {
+          profiles,
+          activeProfileId: state.activeProfileId === id ? profiles[0].id : state.activeProfileId,
+        };
+      }),
+
+      setIdleTimeout: (mode: RunMode, timeout: number) => set(state => ({
+        idleTimeouts: { ...state.idleTimeouts, [mode]: Math.max(0, timeout) },
+      })),
+
+      setToolApproval: (toolName: string, required: boolean) => set(state => ({
+        approvalTools: required
+          ? [...state.approvalTools.filter(name => name !== toolName), toolName]
+          : state.approvalTools.filter(name => name !== toolName),
+      })),
+
+      setPlanReview: (planReview: boolean) => set({ planReview }),
+
+      setModelPrice: (model: string, price: ModelPrice) => set(state => ({
+        modelPrices: { ...state.modelPrices, [model]: price },
+      })),
+
+      deleteModelPrice: (model: string) => set(state => {
+        const modelPrices = { ...state.modelPrices };
+        delete modelPrices[model];
+        return { modelPrices };
+      }),
+    }),
+    {
+      name: 'agent-ui-settings',
+      version: 5,
+      migrate: (persisted, version) => {
+        const state = persisted as SettingsStore;
+        // v0 -> v1：补充内置的离线 Mock 配置
+        if (version < 1 && !state.profiles.some(p => p.id === MOCK_PROFILE.id)) {
+          state.profiles = [...state.profiles, MOCK_PROFILE];
+        }
+        // v1 -> v2：新增空闲超时设置
+        if (version < 2) {
+          state.idleTimeouts = DEFAULT_IDLE_TIMEOUTS;
+        }
+        // v2 -> v3：新增工具审批策略
+        if (version < 3) {
+          state.approvalTools = [];
+        }
+        // v3 -> v4：新增计划审阅开关
+        if (version < 4) {
+          state.planReview = false;
+        }
+        // v4 -> v5：新增模型价格表
+        if (version < 5) {
+          state.modelPrices = {};
+        }
+        return state;
+      },
+    }
+  )
+);
+
+/**
+ * 获取当前激活的连接配置（供非 React 代码使用）
+ */
+export function getActiveProfile(): ConnectionProfile {
+  const { profiles, activeProfileId } = useSettingsStore.getState();
+  return profiles.find(p => p.id === activeProfileId) ?? profiles[0] ?? DEFAULT_PROFILE;
+}
@@ -0,0 +1,107 @@
+/**
+ * 斜杠命令注册表 Store
+ * 页面（或其他组件）以 source 为单位注册命令，卸载时注销；输入框从这里读取可用命令做补全与执行
+ * 多个来源注册同名命令时，后注册的覆盖先注册的
+ */
+
+import { create } from 'zustand';
+
+/**
+ * 命令执行结果：返回字符串时在输入框下方提示（如列表、失败原因）
+ */
+export type SlashCommandResult = string | void;
+
+export interface SlashCommand {
+  /** 命令名（不含 /） */
+  name: string;
+  description: string;
+  /** 参数提示，如 "<goal>"（必填）或 "[preset]"（可选） */
+  args?: string;
+  run: (args: string) => SlashCommandResult | Promise<SlashCommandResult>;
+}
+
+/**
+ * 解析后的命令输入
+ */
+export interface ParsedSlashCommand {
+  name: string;
+  args: string;
+}
+
+// "/name" 或 "/name 参数"；"/usr/bin" 这类路径不视为命令
+const SLASH_COMMAND_PATTERN = /^\/([\w-]+)(?:\s+([\s\S]*))?$/;
+
+export function parseSlashCommand(text: string): ParsedSlashCommand | null {
+  const match = SLASH_COMMAND_PATTERN.exec(text.trim());
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), args: (match[2] ?? '').trim() };
+}
+
+/**
+ * 命令需要参数（参数提示以 < 开头）
+ */
+export function requiresArgs(command: SlashCommand): boolean {
+  return !!command.args?.startsWith('<');
+}
+
+export function formatSlashCommandUsage(command: SlashCommand): string {
+  return command.args ? `/${command.name} ${command.args}` : `/${command.name}`;
+}
+
+/**
+ * 输入 "/pl" 时补全的候选命令；已输入参数（出现空白）后不再补全
+ */
+export function matchSlashCommands(commands: SlashCommand[], text: string): SlashCommand[] {
+  if (!/^\/[\w-]*$/.test(text)) return [];
+  const prefix = text.slice(1).toLowerCase();
+  return commands.filter(command => command.name.startsWith(prefix));
+}
+
+interface SlashCommandStore {
+  // 按来源注册的命令（保持首次注册的顺序，同名命令以后注册的来源为准）
+  sources: Record<string, SlashCommand[]>;
+  // 合并后的可用命令，按命令名排序
+  commands: SlashCommand[];
+
+  // Actions
+  register: (source: string, commands: SlashCommand[]) => void;
+  unregister: (source: string) => void;
+}
+
+function mergeCommands(sources: Record<string, SlashCommand[]>): SlashCommand[] {
+  const byName = new Map<string, SlashCommand>();
+  for (const commands of Object.values(sources)) {
+    for (const command of commands) {
+      byName.set(command.name, command);
+    }
+  }
+  return [...byName.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const useSlashCommandStore = create<SlashCommandStore>((set) => ({
+  // Initial state
+  sources: {},
+  commands: [],
+
+  // Actions
+  register: (source, commands) => set(state => {
+    // 重新注册（命令列表更新）时保持原来的位置，同名命令的优先级不随更新变化
+    if (!(source in state.sources)) {
+      for (const [other, otherCommands] of Object.entries(state.sources)) {
+        const clashes = commands.filter(c => otherCommands.some(o => o.name === c.name)).map(c => `/${c.name}`);
+        if (clashes.length > 0) {
+          console.warn(`[SlashCommands] ${clashes.join(', ')} from "${source}" override "${other}"`);
+        }
+      }
+    }
+    const sources = { ...state.sources, [source]: commands };
+    return { sources, commands: mergeCommands(sources) };
+  }),
+
+  unregister: (source) => set(state => {
+    if (!(source in state.sources)) return state;
+    const sources = { ...state.sources };
+    delete sources[source];
+    return { sources, commands: mergeCommands(sources) };
+  }),
+}));
@@ -0,0 +1,111 @@
+/**
+ * 工具选择 Store
+ * 记录推理 / 规划模式下允许 agent 使用的工具子集，持久化到 localStorage
+ * 选择按会话保存；尚未有会话 ID 的新会话使用该模式最近一次的选择
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ToolInfo } from '../types/events';
+import type { RunMode } from './useSettingsStore';
+
+/**
+ * 工具选择：工具名列表，null 表示全部工具（包括之后新增的工具）
+ */
+export type ToolSelection = string[] | null;
+
+/**
+ * 工具预设
+ */
+export interface ToolPreset {
+  id: 'all' | 'no-web' | 'read-only';
+  label: string;
+  /** 根据当前可用工具计算预设的选择 */
+  select: (tools: ToolInfo[]) => ToolSelection;
+}
+
+// 访问网络的工具（按工具名匹配）
+const WEB_TOOL_PATTERN = /web|http|fetch|browse|url|crawl|scrape|internet/i;
+// 只读工具（工具名以查询类动词开头）
+const READ_ONLY_TOOL_PATTERN = /^(read|get|list|search|find|grep|glob|view|query|lookup|describe|show|ls|cat)(_|-|$|[A-Z])/;
+
+export const TOOL_PRESETS: ToolPreset[] = [
+  { id: 'all', label: '全部', select: () => null },
+  {
+    id: 'no-web',
+    label: '禁用网络',
+    select: tools => tools.filter(t => !WEB_TOOL_PATTERN.test(t.name)).map(t => t.name),
+  },
+  {
+    id: 'read-only',
+    label: '只读',
+    select: tools => tools.filter(t => READ_ONLY_TOOL_PATTERN.test(t.name)).map(t => t.name),
+  },
+];
+
+/**
+ * 将选择解析为请求中发送的工具名（忽略后端已不再提供的工具）
+ */
+export function resolveToolNames(tools: ToolInfo[], selection: ToolSelection): string[] {
+  if (selection === null) return tools.map(t => t.name);
+  return tools.filter(t => selection.includes(t.name)).map(t => t.name);
+}
+
+function conversationKey(mode: RunMode, conversationId: string): string {
+  return `${mode}:${conversationId}`;
+}
+
+interface ToolSelectionState {
+  // 各模式最近一次的选择（新会话使用）
+  defaults: Partial<Record<RunMode, ToolSelection>>;
+  // 按 "mode:conversationId" 保存的选择
+  conversations: Record<string, ToolSelection>;
+}
+
+/**
+ * 获取某个会话当前的选择（供 selector 与非 React 代码使用）
+ */
+export function getToolSelection(
+  state: ToolSelectionState,
+  mode: RunMode,
+  conversationId?: string
+): ToolSelection {
+  if (conversationId) {
+    const key = conversationKey(mode, conversationId);
+    if (key in state.conversations) return state.conversations[key];
+  }
+  return state.defaults[mode] ?? null;
+}
+
+interface ToolSelectionStore extends ToolSelectionState {
+  // Actions
+  setSelection: (mode: RunMode, conversationId: string | undefined, selection: ToolSelection) => void;
+  rememberConversation: (mode: RunMode, conversationId: string, selection: ToolSelection) => void;
+}
+
+export const useToolSelectionStore = create<ToolSelectionStore>()(
+  persist(
+    (set) => ({
+      // Initial state
+      defaults: {},
+      conversations: {},
+
+      // Actions
+      // 修改选择：同时作为该模式之后新会话的默认选择
+      setSelection: (mode, conversationId, selection) => set(state => ({
+        defaults: { ...state.defaults, [mode]: selection },
+        conversations: conversationId
+          ? { ...state.conversations, [conversationKey(mode, conversationId)]: selection }
+          : state.conversations,
+      })),
+
+      // 新会话拿到 ID 后记录其使用的选择
+      rememberConversation: (mode, conversationId, selection) => set(state => ({
+        conversations: { ...state.conversations, [conversationKey(mode, conversationId)]: selection },
+      })),
+    }),
+    {
+      name: 'agent-ui-tool-selection',
+    }
+  )
+);
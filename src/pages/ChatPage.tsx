@@ -3,69 +3,136 @@
  * 包含会话历史侧边栏和 Artifact 预览侧边栏
  */
 
-import { useState, useCallback } from 'react';
+import { useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { ChatContainer } from '@/components/ChatContainer';
 import { ChatInput } from '@/components/ChatInput';
 import { ConversationSidebar } from '@/components/ConversationSidebar';
 import { ArtifactPreviewSidebar } from '@/components/ArtifactPreviewSidebar';
 import { useChat } from '@/hooks/useChat';
+import { useSlashCommands } from '@/hooks/useSlashCommands';
 import { useArtifactStore } from '@/lib/useArtifactStore';
+import { useChatStore, type ChatMode } from '@/lib/useChatStore';
+import { TOOL_PRESETS, resolveToolNames } from '@/lib/useToolSelectionStore';
+import type { SlashCommand } from '@/lib/useSlashCommandStore';
+import { describeApiError } from '@/services/apiError';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
-
-type ChatMode = 'react' | 'planner';
+import { Download } from 'lucide-react';
 
 export function ChatPage() {
+  const navigate = useNavigate();
+  // 当前模式保存在 store 中，切换路由后保持；编程页的 /plan、/react 命令也通过它切换
+  const mode = useChatStore(state => state.chatMode);
+  const setMode = useChatStore(state => state.setChatMode);
+
+  // 推理与规划模式各自保存会话，切换标签或路由时不会丢失
   const {
     messages,
     conversationId,
-    plannerConversationId,
     isLoading,
+    isCancelling,
+    connectionStatus,
     send,
-    sendPlanner,
+    editMessage,
+    switchBranch,
+    regenerate,
+    respondToolApproval,
+    approvePlan,
+    exportCurrentBranch,
     cancel,
+    keepWaiting,
+    reconnect,
+    stallStatus,
     clear,
     tools,
-    loadReactConversation,
-    loadPlannerConversation,
-  } = useChat();
+    toolSelection,
+    setToolSelection,
+    newConversation,
+    loadConversation,
+    usage,
+    draft,
+    setDraft,
+    draftAttachments,
+    setDraftAttachments,
+    queue,
+    queuePaused,
+    updateQueued,
+    removeQueued,
+    resumeQueue,
+  } = useChat(mode);
 
   const { isOpen: isArtifactOpen } = useArtifactStore();
 
-  const [mode, setMode] = useState<ChatMode>('react');
-  const [inputValue, setInputValue] = useState('');
-
-  const currentConversationId = mode === 'react' ? conversationId : plannerConversationId;
-
-  const handleSend = (input: string) => {
-    if (mode === 'planner') {
-      sendPlanner(input);
-    } else {
-      send(input);
-    }
-  };
-
-  const handleSelectConversation = useCallback(async (id: string) => {
-    if (mode === 'react') {
-      await loadReactConversation(id);
-    } else {
-      await loadPlannerConversation(id);
-    }
-  }, [mode, loadReactConversation, loadPlannerConversation]);
-
-  const handleNewConversation = useCallback(() => {
-    clear();
-  }, [clear]);
+  // 聊天页的斜杠命令
+  const commands = useMemo<SlashCommand[]>(() => [
+    { name: 'react', description: '切换到推理模式', run: () => setMode('react') },
+    {
+      name: 'plan',
+      args: '<goal>',
+      description: '切换到规划模式并发送目标',
+      run: (goal) => {
+        setMode('planner');
+        useChatStore.getState().send('planner', goal);
+      },
+    },
+    {
+      name: 'code',
+      args: '<requirement>',
+      description: '在编程模式中发送需求',
+      run: (requirement) => {
+        useChatStore.getState().send('coding', requirement);
+        navigate('/code');
+      },
+    },
+    { name: 'clear', description: '清空当前会话', run: () => clear() },
+    {
+      name: 'tools',
+      args: '[preset]',
+      description: `查看可用工具，或切换预设（${TOOL_PRESETS.map(p => p.label).join(' / ')}）`,
+      run: (name) => {
+        if (!name) {
+          const selected = resolveToolNames(tools, toolSelection);
+          return `已选 ${selected.length}/${tools.length} 个工具：${selected.join(', ') || '无'}`;
+        }
+        const preset = TOOL_PRESETS.find(p => p.id === name || p.label === name);
+        if (!preset) {
+          throw new Error(`未知的工具预设 "${name}"，可用：${TOOL_PRESETS.map(p => `${p.label}（${p.id}）`).join('、')}`);
+        }
+        setToolSelection(preset.select(tools));
+        return `工具已切换为 "${preset.label}"`;
+      },
+    },
+    {
+      name: 'export',
+      description: '导出当前展示的分支',
+      run: () => {
+        if (useChatStore.getState().sessions[mode].messages.length === 0) return '当前会话没有可导出的内容';
+        exportCurrentBranch();
+      },
+    },
+    {
+      name: 'load',
+      args: '<conversation>',
+      description: '按会话 ID 打开历史会话',
+      run: async (id) => {
+        const error = await loadConversation(id);
+        if (error) throw new Error(`打开失败：${describeApiError(error)}`);
+      },
+    },
+  ], [mode, setMode, navigate, clear, tools, toolSelection, setToolSelection, exportCurrentBranch, loadConversation]);
+  useSlashCommands('chat', commands);
 
   return (
     <div className="flex h-full">
       {/* 左侧会话历史侧边栏 */}
       <ConversationSidebar
         mode={mode}
-        currentConversationId={currentConversationId}
-        onSelectConversation={handleSelectConversation}
-        onNewConversation={handleNewConversation}
+        currentConversationId={conversationId}
+        onSelectConversation={loadConversation}
+        onNewConversation={newConversation}
+        currentUsage={usage}
       />
 
       {/* 主内容区 */}
@@ -86,9 +153,15 @@ export function ChatPage() {
               </Badge>
             )}
             {messages.length > 0 && (
-              <Button variant="ghost" size="sm" onClick={clear}>
-                清除
-              </Button>
+              <>
+                <Button variant="ghost" size="sm" className="gap-2" onClick={exportCurrentBranch} title="导出当前展示的分支">
+                  <Download className="h-4 w-4" />
+                  导出分支
+                </Button>
+                <Button variant="ghost" size="sm" onClick={clear}>
+                  清除
+                </Button>
+              </>
             )}
           </div>
         </div>
@@ -98,7 +171,23 @@ export function ChatPage() {
           <ChatContainer 
             messages={messages} 
             isLoading={isLoading} 
-            onSelectPrompt={setInputValue}
+            mode={mode}
+            onSelectPrompt={setDraft}
+            connectionStatus={connectionStatus}
+            stallStatus={stallStatus}
+            onKeepWaiting={keepWaiting}
+            onReconnect={reconnect}
+            onCancel={cancel}
+            onEditMessage={editMessage}
+            onSwitchBranch={switchBranch}
+            onRegenerate={regenerate}
+            onToolApproval={respondToolApproval}
+            onApprovePlan={approvePlan}
+            queue={queue}
+            queuePaused={queuePaused}
+            onEditQueued={updateQueued}
+            onRemoveQueued={removeQueued}
+            onResumeQueue={resumeQueue}
           />
         </div>
 
@@ -106,12 +195,19 @@ export function ChatPage() {
         <div className="px-4 pt-4 pb-0 border-t border-border bg-background">
           <div className="mx-auto">
             <ChatInput
-              onSend={handleSend}
+              onSend={send}
               isLoading={isLoading}
               onCancel={cancel}
+              isCancelling={isCancelling}
               placeholder={mode === 'planner' ? '输入你的目标...' : '输入你的问题...'}
-              value={inputValue}
-              onValueChange={setInputValue}
+              value={draft}
+              onValueChange={setDraft}
+              attachments={draftAttachments}
+              onAttachmentsChange={setDraftAttachments}
+              tools={tools}
+              toolSelection={toolSelection}
+              onToolSelectionChange={setToolSelection}
+              templateMode={mode}
             />
           </div>
         </div>
@@ -1,15 +1,21 @@
 /**
  * CodePage - 编程模式页面
+ * 左侧列出当前项目下的编程会话，同一项目可以有多个独立会话
  */
 
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { CodingLayout } from '@/components/CodingLayout';
 import { ProjectSelector } from '@/components/ProjectSelector';
+import { ConversationSidebar } from '@/components/ConversationSidebar';
 import { useChat } from '@/hooks/useChat';
+import { useSlashCommands } from '@/hooks/useSlashCommands';
+import { useChatStore } from '@/lib/useChatStore';
+import type { SlashCommand } from '@/lib/useSlashCommandStore';
+import { describeApiError } from '@/services/apiError';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, Download } from 'lucide-react';
 import type { ConversationEvent } from '@/services/sseClient';
 
 export function CodePage() {
@@ -17,8 +23,22 @@ export function CodePage() {
   const {
     messages,
     isLoading,
-    sendCoding,
+    isCancelling,
+    connectionStatus,
+    send,
+    draft,
+    setDraft,
+    draftAttachments,
+    setDraftAttachments,
+    editMessage,
+    switchBranch,
+    regenerate,
+    respondToolApproval,
+    exportCurrentBranch,
     cancel,
+    keepWaiting,
+    reconnect,
+    stallStatus,
     clear,
     tools,
     bddFeatures,
@@ -26,12 +46,17 @@ export function CodePage() {
     generatedTree,
     codeSummary,
     projectId,
+    conversationId,
     loadProject,
-  } = useChat();
-
-  const handleSend = (input: string) => {
-    sendCoding(input);
-  };
+    loadConversation,
+    newConversation,
+    usage,
+    queue,
+    queuePaused,
+    updateQueued,
+    removeQueued,
+    resumeQueue,
+  } = useChat('coding');
 
   const handleLoadProject = useCallback(
     (
@@ -43,6 +68,48 @@ export function CodePage() {
       loadProject(tree, id, name, conversation);
   }, [loadProject]);
 
+  // 编程页的斜杠命令；/plan、/react 跳转到聊天页的对应模式
+  const commands = useMemo<SlashCommand[]>(() => [
+    { name: 'code', args: '<requirement>', description: '发送需求', run: (requirement) => send(requirement) },
+    {
+      name: 'plan',
+      args: '<goal>',
+      description: '在规划模式中发送目标',
+      run: (goal) => {
+        useChatStore.getState().send('planner', goal);
+        useChatStore.getState().setChatMode('planner');
+        navigate('/chat');
+      },
+    },
+    {
+      name: 'react',
+      description: '切换到推理模式',
+      run: () => {
+        useChatStore.getState().setChatMode('react');
+        navigate('/chat');
+      },
+    },
+    { name: 'clear', description: '清空当前会话', run: () => clear() },
+    {
+      name: 'export',
+      description: '导出当前展示的分支',
+      run: () => {
+        if (useChatStore.getState().sessions.coding.messages.length === 0) return '当前会话没有可导出的内容';
+        exportCurrentBranch();
+      },
+    },
+    {
+      name: 'load',
+      args: '<conversation>',
+      description: '按会话 ID 打开历史会话',
+      run: async (id) => {
+        const error = await loadConversation(id);
+        if (error) throw new Error(`打开失败：${describeApiError(error)}`);
+      },
+    },
+  ], [navigate, send, clear, exportCurrentBranch, loadConversation]);
+  useSlashCommands('code', commands);
+
   return (
     <div className="flex flex-col h-full">
       {/* 顶部工具栏 */}
@@ -70,26 +137,62 @@ export function CodePage() {
             </Badge>
           )}
           {messages.length > 0 && (
-            <Button variant="ghost" size="sm" onClick={clear}>
-              清除
-            </Button>
+            <>
+              <Button variant="ghost" size="sm" className="gap-2" onClick={exportCurrentBranch} title="导出当前展示的分支">
+                <Download className="h-4 w-4" />
+                导出分支
+              </Button>
+              <Button variant="ghost" size="sm" onClick={clear}>
+                清除
+              </Button>
+            </>
           )}
         </div>
       </div>
 
-      {/* 编程布局 */}
-      <div className="flex-1 overflow-hidden">
-        <CodingLayout
-          messages={messages}
-          isLoading={isLoading}
-          bddFeatures={bddFeatures}
-          generatedFiles={generatedFiles}
-          generatedTree={generatedTree}
-          codeSummary={codeSummary}
+      <div className="flex-1 flex overflow-hidden">
+        {/* 编程会话列表 */}
+        <ConversationSidebar
+          mode="coding"
           projectId={projectId}
-          onSend={handleSend}
-          onCancel={cancel}
+          currentConversationId={conversationId}
+          onSelectConversation={loadConversation}
+          onNewConversation={newConversation}
+          currentUsage={usage}
         />
+
+        {/* 编程布局 */}
+        <div className="flex-1 min-w-0">
+          <CodingLayout
+            messages={messages}
+            isLoading={isLoading}
+            isCancelling={isCancelling}
+            connectionStatus={connectionStatus}
+            stallStatus={stallStatus}
+            bddFeatures={bddFeatures}
+            generatedFiles={generatedFiles}
+            generatedTree={generatedTree}
+            codeSummary={codeSummary}
+            projectId={projectId}
+            onSend={send}
+            inputValue={draft}
+            onInputChange={setDraft}
+            attachments={draftAttachments}
+            onAttachmentsChange={setDraftAttachments}
+            onCancel={cancel}
+            onKeepWaiting={keepWaiting}
+            onReconnect={reconnect}
+            onEditMessage={editMessage}
+            onSwitchBranch={switchBranch}
+            onRegenerate={regenerate}
+            onToolApproval={respondToolApproval}
+            queue={queue}
+            queuePaused={queuePaused}
+            onEditQueued={updateQueued}
+            onRemoveQueued={removeQueued}
+            onResumeQueue={resumeQueue}
+          />
+        </div>
       </div>
     </div>
   );
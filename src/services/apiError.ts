@@ -0,0 +1,98 @@
+/**
+ * REST API 错误模型
+ * 区分网络、HTTP 状态、解析、中止与超时失败，REST 辅助函数统一返回 ApiResult
+ */
+
+/**
+ * 错误类型
+ * - network: 无法连接后端（fetch 抛出 TypeError 等）
+ * - http: 后端返回非 2xx 状态码
+ * - parse: 响应体不是预期的 JSON
+ * - abort: 调用方主动中止
+ * - timeout: 超过请求超时时间
+ */
+export type ApiErrorKind = 'network' | 'http' | 'parse' | 'abort' | 'timeout';
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** 请求路径（不含 baseUrl） */
+  readonly path: string;
+  /** HTTP 状态码（仅 kind === 'http'） */
+  readonly status?: number;
+
+  constructor(
+    kind: ApiErrorKind,
+    message: string,
+    details: { path: string; status?: number; cause?: unknown }
+  ) {
+    super(message, { cause: details.cause });
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.path = details.path;
+    this.status = details.status;
+  }
+
+  /**
+   * 是否值得自动重试：网络错误、超时与 5xx/429 可重试，其余（4xx、解析失败、主动中止）不重试
+   */
+  get retryable(): boolean {
+    if (this.kind === 'network' || this.kind === 'timeout') return true;
+    if (this.kind === 'http' && this.status !== undefined) {
+      return this.status >= 500 || this.status === 429;
+    }
+    return false;
+  }
+}
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError };
+
+/**
+ * 单次调用的请求选项，未指定时使用连接配置与默认值
+ */
+export interface RequestOptions {
+  /** 超时（毫秒），默认取当前连接配置的 timeout */
+  timeout?: number;
+  /** 失败后的最大重试次数（仅对可重试错误生效） */
+  retries?: number;
+  /** 首次重试前的等待时间（毫秒），之后每次翻倍 */
+  retryDelay?: number;
+  /** 调用方的中止信号 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 将 fetch 抛出的异常归类为 ApiError
+ */
+export function toApiError(error: unknown, path: string): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new ApiError('timeout', error.message, { path, cause: error });
+  }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ApiError('abort', 'Request aborted', { path, cause: error });
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ApiError('network', message, { path, cause: error });
+}
+
+/**
+ * 面向用户的错误描述
+ */
+export function describeApiError(error: ApiError): string {
+  switch (error.kind) {
+    case 'network':
+      return '无法连接到后端服务';
+    case 'timeout':
+      return '请求超时';
+    case 'abort':
+      return '请求已取消';
+    case 'parse':
+      return '后端返回了无法解析的数据';
+    case 'http':
+      if (error.status === 404) return '资源不存在 (404)';
+      if (error.status === 401 || error.status === 403) return `没有访问权限 (${error.status})`;
+      return `服务器错误 (${error.status})${error.message ? `：${error.message}` : ''}`;
+  }
+}
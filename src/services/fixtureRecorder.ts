@@ -0,0 +1,79 @@
+/**
+ * Fixture 录制器
+ * 在录制开启时，把真实后端的流式事件（含相对时间）与 REST 响应写入 useFixtureStore
+ */
+
+import { useFixtureStore, type RecordedSSEMessage } from '../lib/useFixtureStore';
+import type { Attachment } from '../types/events';
+
+/**
+ * 单次流式请求的录制句柄
+ */
+export interface StreamRecording {
+  record: (message: Omit<RecordedSSEMessage, 'offset'>) => void;
+  finish: () => void;
+}
+
+/**
+ * 录制的请求体不保存附件内容（base64），只保留文件名、类型等元信息，避免撑满 localStorage
+ */
+function stripAttachmentData(request: Record<string, unknown>): Record<string, unknown> {
+  if (!Array.isArray(request.attachments)) return request;
+  return {
+    ...request,
+    attachments: (request.attachments as Attachment[]).map(attachment => ({ ...attachment, data: undefined })),
+  };
+}
+
+/**
+ * 开始录制一次流式请求；未开启录制时返回 null
+ */
+export function startStreamRecording(
+  path: string,
+  request: Record<string, unknown>
+): StreamRecording | null {
+  if (!useFixtureStore.getState().isRecording) return null;
+
+  const recordedRequest = stripAttachmentData(request);
+  const startedAt = performance.now();
+  const messages: RecordedSSEMessage[] = [];
+  let finished = false;
+
+  return {
+    record: (message) => {
+      messages.push({ ...message, offset: Math.round(performance.now() - startedAt) });
+    },
+    finish: () => {
+      if (finished || messages.length === 0) return;
+      finished = true;
+      useFixtureStore.getState().addStream({
+        id: `stream_${Date.now()}`,
+        path,
+        request: recordedRequest,
+        recordedAt: Date.now(),
+        messages,
+      });
+    },
+  };
+}
+
+/**
+ * 录制 REST 响应（仅录制 JSON 响应）
+ */
+export async function recordRestResponse(method: string, path: string, response: Response): Promise<void> {
+  if (!useFixtureStore.getState().isRecording) return;
+  if (!response.headers.get('Content-Type')?.includes('application/json')) return;
+
+  try {
+    const body = await response.clone().json();
+    useFixtureStore.getState().upsertRest({
+      method,
+      path,
+      status: response.status,
+      body,
+      recordedAt: Date.now(),
+    });
+  } catch (error) {
+    console.warn(`[Fixture] Failed to record ${method} ${path}:`, error);
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * 离线 Mock 后端
+ * 以 fetch 兼容的方式回放录制的 Fixture：流式接口按原始时间（可加速）输出 text/event-stream，
+ * 项目与会话等 REST 接口返回录制的数据。回放结果交给 sseClient 的同一解析路径处理。
+ * `${path}/cancel` 会停止正在回放的流，并补发终止的 cancelled 事件。
+ * 请求带 fromTurn（分叉重新生成）时按后端约定为分叉分配新的 conversationId，通过 conversation_id 事件返回。
+ */
+
+import { useFixtureStore, type RecordedSSEMessage, type StreamFixture } from '../lib/useFixtureStore';
+
+// 可回放的流式接口
+const STREAM_PATHS = ['/api/react', '/api/planner', '/api/coding'];
+
+// 用户输入在各流式接口请求体中的字段名
+const INPUT_FIELDS = ['input', 'goal', 'requirement'];
+
+// 正在回放的流：接口路径 -> 取消函数
+const activeReplays = new Map<string, () => void>();
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * 将一条录制的消息序列化为 SSE 文本（多行 data 拆分为多个 data 字段）
+ */
+function serializeMessage(message: RecordedSSEMessage): string {
+  let text = '';
+  if (message.id !== undefined) text += `id: ${message.id}\n`;
+  text += `event: ${message.event}\n`;
+  for (const line of message.data.split('\n')) {
+    text += `data: ${line}\n`;
+  }
+  return `${text}\n`;
+}
+
+/**
+ * 为流式请求选择 Fixture：优先匹配相同输入，否则使用该接口最近一次录制
+ */
+function findStreamFixture(path: string, body: Record<string, unknown>): StreamFixture | undefined {
+  const candidates = useFixtureStore.getState().streams.filter(s => s.path === path);
+  const field = INPUT_FIELDS.find(f => typeof body[f] === 'string');
+  const exact = field
+    ? candidates.filter(s => s.request[field] === body[field])
+    : [];
+  const pool = exact.length > 0 ? exact : candidates;
+  return pool[pool.length - 1];
+}
+
+/**
+ * 分叉运行：把录制的 conversation_id 事件换成新分配的 ID（录制中没有时在开头补发）
+ */
+function withForkConversationId(messages: RecordedSSEMessage[], conversationId: string): RecordedSSEMessage[] {
+  const data = JSON.stringify({ type: 'conversation_id', conversationId });
+  if (!messages.some(m => m.event === 'conversation_id')) {
+    return [{ event: 'conversation_id', data, offset: messages[0]?.offset ?? 0 }, ...messages];
+  }
+  return messages.map(m => (m.event === 'conversation_id' ? { ...m, data } : m));
+}
+
+/**
+ * 构造按时间回放的 SSE 响应（forkConversationId 为分叉运行新分配的会话 ID）
+ */
+function streamResponse(
+  fixture: StreamFixture,
+  lastEventId: string | null,
+  signal: AbortSignal | null | undefined,
+  forkConversationId?: string
+): Response {
+  const { replaySpeed } = useFixtureStore.getState();
+  const encoder = new TextEncoder();
+
+  // 续传：跳过 Last-Event-ID 及之前的事件
+  let messages = forkConversationId
+    ? withForkConversationId(fixture.messages, forkConversationId)
+    : fixture.messages;
+  if (lastEventId !== null) {
+    const index = messages.findIndex(m => m.id === lastEventId);
+    if (index !== -1) messages = messages.slice(index + 1);
+  }
+  const baseOffset = messages[0]?.offset ?? 0;
+
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  // 最后发出的事件 ID；SSE 的 id 会延续到后续事件，补发事件需要新的 ID 以免被当作重复丢弃
+  let lastSentId: string | undefined = lastEventId ?? undefined;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // 模拟后端取消：停止剩余事件，补发 cancelled 后结束
+      const cancelReplay = () => {
+        timers.forEach(clearTimeout);
+        controller.enqueue(encoder.encode(serializeMessage({
+          id: lastSentId !== undefined && /^\d+$/.test(lastSentId) ? String(Number(lastSentId) + 1) : 'cancelled',
+          event: 'cancelled',
+          data: JSON.stringify({ type: 'cancelled', reason: 'user', timestamp: Date.now() }),
+          offset: 0,
+        })));
+        close();
+      };
+      const unregister = () => {
+        if (activeReplays.get(fixture.path) === cancelReplay) {
+          activeReplays.delete(fixture.path);
+        }
+      };
+      const abort = () => {
+        unregister();
+        timers.forEach(clearTimeout);
+        controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+      };
+      const close = () => {
+        unregister();
+        signal?.removeEventListener('abort', abort);
+        controller.close();
+      };
+
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+      signal?.addEventListener('abort', abort, { once: true });
+      activeReplays.set(fixture.path, cancelReplay);
+
+      messages.forEach((message, index) => {
+        const delay = replaySpeed > 0 ? (message.offset - baseOffset) / replaySpeed : 0;
+        timers.push(setTimeout(() => {
+          controller.enqueue(encoder.encode(serializeMessage(message)));
+          if (message.id !== undefined) lastSentId = message.id;
+          if (index === messages.length - 1) {
+            close();
+          }
+        }, delay));
+      });
+
+      if (messages.length === 0) {
+        close();
+      }
+    },
+    cancel() {
+      timers.forEach(clearTimeout);
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+}
+
+/**
+ * REST 路由的兜底响应（没有录制数据时）
+ */
+function fallbackResponse(method: string, path: string): Response {
+  if (method === 'DELETE') {
+    return jsonResponse({ success: true });
+  }
+  if (method === 'POST' && /^\/api\/(react|planner|coding)\/message$/.test(path)) {
+    return jsonResponse({ success: true });
+  }
+  if (method === 'POST' && /^\/api\/projects\/[^/]+\/persist$/.test(path)) {
+    return jsonResponse({ success: true, projectId: path.split('/')[3] });
+  }
+  if (path === '/api/tools') return jsonResponse({ tools: [] });
+  if (path === '/api/projects') return jsonResponse({ projects: [] });
+  if (/^\/api\/(react|planner|coding)\/conversations$/.test(path)) {
+    return jsonResponse([]);
+  }
+  if (path.endsWith('/artifacts')) return jsonResponse({ artifacts: [] });
+  return jsonResponse({ error: `No recorded fixture for ${method} ${path}` }, 404);
+}
+
+/**
+ * Mock 版 fetch：path 为不含 baseUrl 的接口路径
+ */
+export async function mockFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method || 'GET').toUpperCase();
+  const pathname = path.split('?')[0];
+
+  if (init.signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+
+  const cancelMatch = pathname.match(/^(\/api\/(?:react|planner|coding))\/cancel$/);
+  if (method === 'POST' && cancelMatch) {
+    const cancelReplay = activeReplays.get(cancelMatch[1]);
+    if (!cancelReplay) {
+      return jsonResponse({ error: 'No active run' }, 409);
+    }
+    cancelReplay();
+    return jsonResponse({ success: true });
+  }
+
+  if (method === 'POST' && STREAM_PATHS.includes(pathname)) {
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) as Record<string, unknown> : {};
+    const fixture = findStreamFixture(pathname, body);
+    if (!fixture) {
+      return jsonResponse({ error: `No recorded stream for ${pathname}` }, 404);
+    }
+    const lastEventId = new Headers(init.headers).get('Last-Event-ID');
+    // 从第 N 轮分叉：录制数据不含历史，只需让分叉使用新的会话，原会话保持不变
+    const forkConversationId = typeof body.fromTurn === 'number'
+      ? `conversation_${crypto.randomUUID()}`
+      : undefined;
+    return streamResponse(fixture, lastEventId, init.signal, forkConversationId);
+  }
+
+  const { rest, removeRest } = useFixtureStore.getState();
+  if (method === 'DELETE') {
+    // 删除时同步移除对应的录制数据
+    removeRest('GET', path);
+  }
+
+  const recorded = rest.find(r => r.method === method && r.path === path);
+  if (recorded) {
+    return jsonResponse(recorded.body, recorded.status);
+  }
+  return fallbackResponse(method, pathname);
+}
@@ -1,290 +1,657 @@
 /**
  * SSE Client for connecting to base-agent server
+ * 后端地址、鉴权、超时与传输方式（SSE / WebSocket）取自当前激活的连接配置（useSettingsStore）
  */
 
-import type { AgentEvent, Plan } from '../types/events';
+import type { AgentEvent, CodingEvent, ConversationIdEvent, RunStartedEvent, Plan, ModelUsage, Attachment, FileMention } from '../types/events';
+import { readSSEEvents, type SSEEnvelope } from './sseParser';
+import {
+  RECONNECT_CONFIG,
+  CANCEL_TIMEOUT,
+  waitFor,
+  createEventCursor,
+  createIdleWatchdog,
+  isTerminalEvent,
+  toResumeBody,
+} from './streamUtils';
+import { openWebSocketStream } from './wsClient';
+import { getActiveProfile } from '../lib/useSettingsStore';
+import { mockFetch } from './mockBackend';
+import { startStreamRecording, recordRestResponse } from './fixtureRecorder';
+import { ApiError, toApiError, type ApiResult, type RequestOptions } from './apiError';
+import {
+  validateAgentEvent,
+  validateCodingEvent,
+  type EventValidationIssue,
+} from '../lib/eventValidation';
 
-const API_BASE = 'http://localhost:3002';
+/**
+ * 使用当前连接配置发起请求
+ * 自动拼接 baseUrl、附加鉴权请求头；Mock 配置下改由本地 Fixture 回放，录制开启时记录 REST 响应
+ * 超时由调用方通过 withTimeout 控制（REST 覆盖到响应体读取完成，流式请求只覆盖到收到响应头）
+ */
+async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const profile = getActiveProfile();
+  if (profile.mock) {
+    return mockFetch(path, init);
+  }
 
-export interface SSEClientOptions {
-  onEvent: (event: AgentEvent) => void;
-  onDone?: (result: string) => void;
-  onError?: (error: string) => void;
+  const headers = new Headers(init.headers);
+  if (profile.authHeader?.name) {
+    headers.set(profile.authHeader.name, profile.authHeader.value);
+  }
+
+  const response = await fetch(`${profile.baseUrl.replace(/\/+$/, '')}${path}`, { ...init, headers });
+  if (!headers.get('Accept')?.includes('text/event-stream')) {
+    await recordRestResponse((init.method || 'GET').toUpperCase(), path, response);
+  }
+  return response;
 }
 
 /**
- * Send a message to the ReAct agent via SSE
+ * 在超时时间内执行 run：超时后以 TimeoutError 中止传入 run 的 signal，run 结束后清除计时器
+ * timeout 未指定时使用连接配置中的超时
  */
-export function sendMessage(
-  input: string,
-  tools: string[],
-  conversationId: string | undefined,
-  options: SSEClientOptions & { onConversationId?: (id: string) => void }
-): () => void {
-  const abortController = new AbortController();
-
-  const fetchSSE = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/api/react`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ input, tools, conversationId }),
-        signal: abortController.signal,
-      });
+async function withTimeout<T>(
+  signal: AbortSignal | null | undefined,
+  timeout: number | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const timeoutMs = timeout ?? getActiveProfile().timeout;
+  const timeoutController = new AbortController();
+  const timer = setTimeout(() => {
+    timeoutController.abort(new DOMException(`Request timed out after ${timeoutMs}ms`, 'TimeoutError'));
+  }, timeoutMs);
+  try {
+    return await run(signal ? AbortSignal.any([signal, timeoutController.signal]) : timeoutController.signal);
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+/**
+ * REST 请求默认值：GET 默认重试一次，修改类请求默认不重试
+ */
+const REQUEST_DEFAULTS = {
+  retries: 1,
+  retryDelay: 500,
+};
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
-      }
+/**
+ * 发起一次 REST 请求并把结果归类为 ApiResult
+ */
+async function requestOnce<R, T>(
+  path: string,
+  init: RequestInit,
+  timeout: number | undefined,
+  select: (data: R) => T
+): Promise<ApiResult<T>> {
+  let response: Response;
+  let text: string;
+  try {
+    // 超时覆盖到响应体读取完成，避免响应头之后卡住的请求一直挂起
+    ({ response, text } = await withTimeout(init.signal, timeout, async signal => {
+      const response = await apiFetch(path, { ...init, signal });
+      return { response, text: await response.text() };
+    }));
+  } catch (error) {
+    return { ok: false, error: toApiError(error, path) };
+  }
 
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      let currentEvent = '';
-      let currentData = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            currentEvent = line.slice(7);
-          } else if (line.startsWith('data: ')) {
-            currentData = line.slice(6);
-            if (currentEvent && currentData) {
-              try {
-                const parsed = JSON.parse(currentData) as AgentEvent;
-
-                if (currentEvent === 'done') {
-                  options.onDone?.(parsed.type === 'done' ? parsed.result : '');
-                } else if (currentEvent === 'conversation_id') {
-                  // 接收后端返回的 conversationId
-                  options.onConversationId?.((parsed as any).conversationId);
-                } else {
-                  options.onEvent(parsed);
-                }
-              } catch {
-                console.error('Failed to parse SSE data:', currentData);
-              }
-              currentEvent = '';
-              currentData = '';
-            }
-          }
-        }
-      }
-    } catch (error) {
-      if ((error as Error).name !== 'AbortError') {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        options.onError?.(message);
-      }
+  let data: unknown;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch (error) {
+    if (response.ok) {
+      return { ok: false, error: new ApiError('parse', 'Invalid JSON response', { path, cause: error }) };
     }
-  };
+  }
 
-  fetchSSE();
+  if (!response.ok) {
+    const message = (data as { error?: unknown } | undefined)?.error;
+    return {
+      ok: false,
+      error: new ApiError('http', typeof message === 'string' ? message : response.statusText, {
+        path,
+        status: response.status,
+      }),
+    };
+  }
 
-  // Return abort function
-  return () => abortController.abort();
+  try {
+    return { ok: true, data: select(data as R) };
+  } catch (error) {
+    return { ok: false, error: new ApiError('parse', 'Unexpected response shape', { path, cause: error }) };
+  }
 }
 
 /**
- * Get available tools from the server
+ * REST 请求：可重试错误按指数退避重试，最终失败时返回带类型的错误而不是抛出
  */
-export async function getTools(): Promise<{ name: string; description: string }[]> {
-  try {
-    const response = await fetch(`${API_BASE}/api/tools`);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+async function requestJSON<R, T = R>(
+  path: string,
+  init: RequestInit,
+  options: RequestOptions,
+  select: (data: R) => T = data => data as unknown as T
+): Promise<ApiResult<T>> {
+  const method = (init.method || 'GET').toUpperCase();
+  const retries = options.retries ?? (method === 'GET' ? REQUEST_DEFAULTS.retries : 0);
+  let delay = options.retryDelay ?? REQUEST_DEFAULTS.retryDelay;
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await requestOnce(path, { ...init, signal: options.signal }, options.timeout, select);
+    if (result.ok) return result;
+
+    const { error } = result;
+    if (attempt >= retries || !error.retryable || options.signal?.aborted) {
+      if (error.kind !== 'abort') {
+        console.error(`[API] ${method} ${path} failed (${error.kind}${error.status ? ` ${error.status}` : ''}):`, error.message);
+      }
+      return result;
     }
-    const data = await response.json();
-    return data.tools;
-  } catch (error) {
-    console.error('Failed to fetch tools:', error);
-    return [];
+    await waitFor(delay, options.signal);
+    delay *= 2;
   }
 }
 
 /**
- * Send a goal to the Planner agent via SSE
+ * 流式连接状态（断线重连）
  */
-export function sendPlannerMessage(
-  goal: string,
-  tools: string[],
-  conversationId: string | undefined,
-  options: SSEClientOptions & { onConversationId?: (id: string) => void }
-): () => void {
+export type StreamConnectionState = 'reconnecting' | 'resumed';
+
+export interface StreamConnectionStatus {
+  state: StreamConnectionState;
+  /** 当前重连次数（从 1 开始） */
+  attempt: number;
+  /** 本次重连前的等待时间（毫秒） */
+  delay: number;
+  /** 用于续传的最后事件 ID */
+  lastEventId?: string;
+}
+
+/**
+ * 流停滞状态：超过空闲超时仍未收到任何数据（含心跳注释）
+ */
+export interface StreamStallStatus {
+  /** 已空闲的时间（毫秒） */
+  idleFor: number;
+  /** 是否可以安全地重连续传（已收到事件但后端未提供 id/seq 时不可） */
+  canReconnect: boolean;
+}
+
+/**
+ * 未通过运行时校验的事件（附带 SSE 事件名）
+ */
+export interface InvalidStreamEvent extends EventValidationIssue {
+  event: string;
+}
+
+export interface SSEClientOptions<E = AgentEvent> {
+  onEvent: (event: E) => void;
+  onDone?: (result: string) => void;
+  onError?: (error: string) => void;
+  onConnectionChange?: (status: StreamConnectionStatus) => void;
+  onInvalidEvent?: (invalid: InvalidStreamEvent) => void;
+  /** 空闲超时（毫秒），为 0 或未设置时不检测停滞 */
+  idleTimeout?: number;
+  /** 进入停滞状态时回调；之后再次收到数据时以 null 回调 */
+  onStall?: (status: StreamStallStatus | null) => void;
+}
+
+/**
+ * 多轮会话相关的发送选项
+ */
+export interface ConversationRunOptions {
+  /** 后端分配或切换会话 ID 时回调 */
+  onConversationId?: (id: string) => void;
+  /**
+   * 从第 N 轮（0 起）分叉重新生成：后端把 conversationId 对应会话的前 N 轮用户输入及其回复
+   * 复制到新的会话，并通过 conversation_id 事件返回新会话 ID；原会话保持不变，供切换回旧分支
+   */
+  fromTurn?: number;
+  /** 执行前需要人工审批的工具名（后端在 tool_call 后暂停，等待 approval 消息） */
+  requireApproval?: string[];
+  /** 用户消息的附件（base64 内联，与 input / goal / requirement 一起发送） */
+  attachments?: Attachment[];
+}
+
+/**
+ * 规划模式的运行选项
+ */
+export interface PlannerRunOptions extends ConversationRunOptions {
+  /** 生成第一版计划后暂停，等待客户端发送 plan_approval（可附带编辑后的计划） */
+  reviewPlan?: boolean;
+}
+
+/**
+ * 编程模式的运行选项
+ */
+export interface CodingRunOptions extends ConversationRunOptions {
+  /** 需求中 @ 引用的项目文件（可带行范围），后端将其作为重点关注的上下文 */
+  focusFiles?: FileMention[];
+}
+
+/**
+ * 客户端发往后端的运行中消息
+ * 后端按 runId 与会话 / 项目标识定位运行
+ */
+export type ClientMessage =
+  | { type: 'cancel' }
+  | { type: 'approval'; toolCallId: string; approved: boolean; args?: Record<string, unknown>; reason?: string }
+  | { type: 'answer'; questionId: string; answer: string }
+  | { type: 'plan_approval'; plan: Plan };
+
+/**
+ * 一次 agent 运行的控制句柄（与传输方式无关）
+ */
+export interface AgentRunHandle {
+  /** 仅断开本地连接，后端不会感知 */
+  abort: () => void;
+  /**
+   * 请求后端取消运行，并等待终止的 cancelled 事件后断开连接
+   * 后端确认（或运行已结束）时返回 null；请求失败或等待超时时返回错误，本地连接同样会被断开
+   */
+  cancel: () => Promise<ApiError | null>;
+  /** 运行中向后端发送消息（审批、回答等）；发送失败时返回错误 */
+  send: (message: Exclude<ClientMessage, { type: 'cancel' }>) => Promise<ApiError | null>;
+  /** 停滞时继续等待：重新开始空闲计时 */
+  keepWaiting: () => void;
+  /** 停滞时主动断开并立即重连续传；无法安全续传时返回 false */
+  reconnect: () => boolean;
+}
+
+/**
+ * 传输层入参：两种传输实现共用
+ */
+export interface AgentStreamRequest<E> {
+  /** 接口路径，例如 /api/react */
+  path: string;
+  /** 启动（及续传）运行的请求体 */
+  getBody: () => Record<string, unknown>;
+  /** 定位运行的上下文（conversationId / projectId），随取消与客户端消息一起发送 */
+  getRunContext: () => Record<string, unknown>;
+  options: Pick<SSEClientOptions, 'onError' | 'onConnectionChange' | 'idleTimeout' | 'onStall'>;
+  onMessage: (envelope: SSEEnvelope<E>) => void;
+  onComplete?: () => void;
+}
+
+/**
+ * 按当前连接配置选择传输方式（Mock 配置始终使用 SSE 回放）
+ */
+function openAgentStream<E>(request: AgentStreamRequest<E>): AgentRunHandle {
+  const profile = getActiveProfile();
+  return profile.transport === 'websocket' && !profile.mock
+    ? openWebSocketStream(request)
+    : openSSEStream(request);
+}
+
+/**
+ * 发起 POST 请求并以异步迭代器消费 SSE 事件流
+ * 取消时调用 `${path}/cancel`，客户端消息发往 `${path}/message`，
+ * 请求体为 getRunContext() 加上 run_started 事件中的 runId
+ *
+ * 网络中断（包括响应在结束事件之前正常结束）时按指数退避重连，携带 Last-Event-ID 从最后收到的事件续传
+ * （续传请求体不含用户输入与附件）；
+ * 带序号的重复事件会被丢弃。若已收到事件但后端未提供 id/seq，则无法安全续传，直接报错。
+ * 设置 idleTimeout 时，超过该时间未收到任何数据（心跳注释也算）即回调 onStall，由调用方决定继续等待、重连或取消。
+ */
+function openSSEStream<E>({
+  path,
+  getBody,
+  getRunContext,
+  options,
+  onMessage,
+  onComplete,
+}: AgentStreamRequest<E>): AgentRunHandle {
   const abortController = new AbortController();
+  const cursor = createEventCursor();
+  const watchdog = createIdleWatchdog(path, options.idleTimeout, options.onStall, () => cursor.canResume);
+  let runId: string | undefined;
+  // 已收到运行结束的事件（done / planner_done / coding_done / cancelled）
+  let terminalReceived = false;
+  // 运行已结束（完成、出错、中止或收到 cancelled）
+  let finished = false;
+  let notifyFinished: (() => void) | null = null;
+  const finish = () => {
+    finished = true;
+    watchdog.disarm();
+    notifyFinished?.();
+  };
+  // 重连退避的基础等待时间（后端可通过 retry 字段修改），第 n 次重连等待 retryDelay * 2^n
+  let retryDelay = RECONNECT_CONFIG.baseDelay;
+  const recording = getActiveProfile().mock ? null : startStreamRecording(path, getBody());
+
+  // 当前连接的中止控制器（手动重连时只中止本次连接）
+  let attemptController = new AbortController();
+  let reconnectRequested = false;
 
-  const fetchSSE = async () => {
+  const fetchSSE = async (attempt: number): Promise<void> => {
+    let retryable = true;
+    attemptController = new AbortController();
     try {
-      const response = await fetch(`${API_BASE}/api/planner`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ goal, tools, conversationId }),
-        signal: abortController.signal,
-      });
+      const lastEventId = cursor.lastEventId;
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      };
+      if (lastEventId !== undefined) {
+        headers['Last-Event-ID'] = lastEventId;
+      }
+
+      // 超时只覆盖到收到响应头，之后由停滞检测负责
+      const response = await withTimeout(
+        AbortSignal.any([abortController.signal, attemptController.signal]),
+        undefined,
+        signal => apiFetch(path, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(
+            lastEventId !== undefined ? { ...toResumeBody(getBody()), lastEventId } : getBody()
+          ),
+          signal,
+        })
+      );
 
       if (!response.ok) {
+        // 4xx 为请求本身的问题，重连无意义
+        retryable = response.status >= 500;
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
+      if (attempt > 0) {
+        options.onConnectionChange?.({ state: 'resumed', attempt, delay: 0, lastEventId });
       }
 
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      let currentEvent = '';
-      let currentData = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            currentEvent = line.slice(7);
-          } else if (line.startsWith('data: ')) {
-            currentData = line.slice(6);
-            if (currentEvent && currentData) {
-              try {
-                const parsed = JSON.parse(currentData) as AgentEvent;
-
-                if (currentEvent === 'planner_done') {
-                  options.onDone?.(parsed.type === 'planner_done' ? parsed.response : '');
-                } else if (currentEvent === 'conversation_id') {
-                  options.onConversationId?.((parsed as any).conversationId);
-                } else {
-                  options.onEvent(parsed);
-                }
-              } catch {
-                console.error('Failed to parse SSE data:', currentData);
-              }
-              currentEvent = '';
-              currentData = '';
-            }
-          }
+      watchdog.arm();
+      for await (const envelope of readSSEEvents<E>(response, { onActivity: watchdog.arm })) {
+        if (envelope.retry !== undefined) {
+          retryDelay = envelope.retry;
+        }
+        if (!cursor.accept(envelope.payload, envelope.id, envelope.eventId)) continue;
+        // 续传后收到新事件：连接已恢复，之后的中断重新开始计算重连次数与退避
+        attempt = 0;
+
+        recording?.record({ event: envelope.event, data: JSON.stringify(envelope.payload), id: envelope.eventId });
+
+        const type = (envelope.payload as { type?: unknown } | null)?.type;
+        if (envelope.event === 'run_started' || type === 'run_started') {
+          runId = (envelope.payload as RunStartedEvent).runId;
+          continue;
+        }
+        if (isTerminalEvent(envelope.event, envelope.payload)) {
+          terminalReceived = true;
         }
+        onMessage(envelope);
+        if (type === 'cancelled') {
+          finish();
+        }
+      }
+
+      // 响应体结束但运行尚未结束：按连接中断处理
+      if (!terminalReceived) {
+        throw new Error('Stream ended before the run finished');
       }
+
+      recording?.finish();
+      onComplete?.();
+      finish();
     } catch (error) {
-      if ((error as Error).name !== 'AbortError') {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        options.onError?.(message);
+      watchdog.disarm();
+      if (reconnectRequested && !abortController.signal.aborted) {
+        // 停滞后手动重连：立即续传，不计入退避等待
+        reconnectRequested = false;
+        options.onConnectionChange?.({ state: 'reconnecting', attempt: attempt + 1, delay: 0, lastEventId: cursor.lastEventId });
+        return fetchSSE(attempt + 1);
+      }
+
+      if (abortController.signal.aborted || (error as Error).name === 'AbortError') {
+        recording?.finish();
+        finish();
+        return;
       }
+
+      if (retryable && cursor.canResume && attempt < RECONNECT_CONFIG.maxRetries) {
+        const delay = Math.min(retryDelay * 2 ** attempt, RECONNECT_CONFIG.maxDelay);
+        console.warn(`[SSE] Connection lost, reconnecting in ${delay}ms (attempt ${attempt + 1})`);
+        options.onConnectionChange?.({ state: 'reconnecting', attempt: attempt + 1, delay, lastEventId: cursor.lastEventId });
+
+        await waitFor(delay, abortController.signal);
+        if (abortController.signal.aborted) return;
+        return fetchSSE(attempt + 1);
+      }
+
+      recording?.finish();
+      finish();
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      options.onError?.(message);
     }
   };
 
-  fetchSSE();
+  const postToRun = (action: 'cancel' | 'message', message: Record<string, unknown>) => requestJSON(
+    `${path}/${action}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...message, ...getRunContext(), runId }),
+    },
+    { retries: 0 },
+    () => undefined
+  );
+
+  const cancel = async (): Promise<ApiError | null> => {
+    if (finished) return null;
+
+    const confirmed = new Promise<boolean>(resolve => {
+      notifyFinished = () => resolve(true);
+    });
+    const result = await postToRun('cancel', {});
 
-  return () => abortController.abort();
+    let error = result.ok ? null : result.error;
+    if (!error && !finished) {
+      const timeout = waitFor(CANCEL_TIMEOUT, abortController.signal).then(() => false);
+      if (!(await Promise.race([confirmed, timeout]))) {
+        error = new ApiError('timeout', `No cancelled event within ${CANCEL_TIMEOUT}ms`, { path: `${path}/cancel` });
+      }
+    }
+    abortController.abort();
+    return error;
+  };
+
+  const send: AgentRunHandle['send'] = async (message) => {
+    const result = await postToRun('message', message);
+    return result.ok ? null : result.error;
+  };
+
+  const reconnect = (): boolean => {
+    if (finished || !cursor.canResume) return false;
+    reconnectRequested = true;
+    attemptController.abort();
+    return true;
+  };
+
+  fetchSSE(0);
+
+  return {
+    abort: () => abortController.abort(),
+    cancel,
+    send,
+    keepWaiting: () => {
+      if (!finished) watchdog.arm();
+    },
+    reconnect,
+  };
 }
 
 /**
- * Send a requirement to the Coding agent via SSE
- * Backend will auto-load project files when projectId is provided
+ * Send a message to the ReAct agent (SSE or WebSocket, per connection profile)
  */
-export function sendCodingMessage(
-  requirement: string,
-  projectId: string | undefined,
-  options: SSEClientOptions
-): () => void {
-  const abortController = new AbortController();
+export function sendMessage(
+  input: string,
+  tools: string[],
+  conversationId: string | undefined,
+  options: SSEClientOptions & ConversationRunOptions
+): AgentRunHandle {
+  // 续传时需要带上后端新分配的 conversationId
+  let activeConversationId = conversationId;
+  let doneReceived = false;
+
+  return openAgentStream<unknown>({
+    path: '/api/react',
+    getBody: () => ({
+      input,
+      tools,
+      conversationId: activeConversationId,
+      fromTurn: options.fromTurn,
+      requireApproval: options.requireApproval,
+      attachments: options.attachments,
+    }),
+    getRunContext: () => ({ conversationId: activeConversationId }),
+    options,
+    onMessage: ({ event, payload }) => {
+      if (event === 'conversation_id') {
+        // 接收后端返回的 conversationId
+        activeConversationId = (payload as ConversationIdEvent).conversationId;
+        options.onConversationId?.(activeConversationId);
+        return;
+      }
 
-  const fetchSSE = async () => {
-    try {
-      const response = await fetch(`${API_BASE}/api/coding`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ requirement, projectId }),
-        signal: abortController.signal,
-      });
+      const validation = validateAgentEvent(payload);
+      if (!validation.ok) {
+        options.onInvalidEvent?.({ ...validation.issue, event });
+        return;
+      }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      const agentEvent = validation.event;
+      if (event === 'done') {
+        doneReceived = true;
+        options.onDone?.(agentEvent.type === 'done' ? agentEvent.result : '');
+      } else {
+        options.onEvent(agentEvent);
       }
+    },
+    // 运行以 error 或 cancelled 结束（没有 done 事件）时同样结束本次运行
+    onComplete: () => {
+      if (!doneReceived) options.onDone?.('');
+    },
+  });
+}
+
+/**
+ * Get available tools from the server
+ */
+export async function getTools(
+  options: RequestOptions = {}
+): Promise<ApiResult<{ name: string; description: string }[]>> {
+  return requestJSON('/api/tools', {}, options, (data: { tools?: { name: string; description: string }[] }) =>
+    data.tools ?? []
+  );
+}
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('No response body');
+/**
+ * Send a goal to the Planner agent (SSE or WebSocket, per connection profile)
+ */
+export function sendPlannerMessage(
+  goal: string,
+  tools: string[],
+  conversationId: string | undefined,
+  options: SSEClientOptions & PlannerRunOptions
+): AgentRunHandle {
+  let activeConversationId = conversationId;
+  let doneReceived = false;
+
+  return openAgentStream<unknown>({
+    path: '/api/planner',
+    getBody: () => ({
+      goal,
+      tools,
+      conversationId: activeConversationId,
+      fromTurn: options.fromTurn,
+      requireApproval: options.requireApproval,
+      attachments: options.attachments,
+      reviewPlan: options.reviewPlan,
+    }),
+    getRunContext: () => ({ conversationId: activeConversationId }),
+    options,
+    onMessage: ({ event, payload }) => {
+      if (event === 'conversation_id') {
+        activeConversationId = (payload as ConversationIdEvent).conversationId;
+        options.onConversationId?.(activeConversationId);
+        return;
       }
 
-      const decoder = new TextDecoder();
-      let buffer = '';
-      let doneReceived = false;
-
-      let currentEvent = '';
-      let currentData = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('event: ')) {
-            currentEvent = line.slice(7);
-          } else if (line.startsWith('data: ')) {
-            currentData = line.slice(6);
-            if (currentEvent && currentData) {
-              try {
-                const parsed = JSON.parse(currentData);
-
-                if (currentEvent === 'coding_done') {
-                  options.onEvent(parsed as AgentEvent);
-                  options.onDone?.(parsed.summary || '');
-                  doneReceived = true;
-                } else {
-                  options.onEvent(parsed as AgentEvent);
-                }
-              } catch {
-                console.error('Failed to parse SSE data:', currentData);
-              }
-              currentEvent = '';
-              currentData = '';
-            }
-          }
-        }
+      const validation = validateAgentEvent(payload);
+      if (!validation.ok) {
+        options.onInvalidEvent?.({ ...validation.issue, event });
+        return;
       }
 
-      // Stream 结束后，如果没收到 coding_done 事件，也调用 onDone
-      if (!doneReceived) {
-        console.log('[SSE] Stream ended without coding_done event, calling onDone');
-        options.onDone?.('');
+      const agentEvent = validation.event;
+      if (event === 'planner_done') {
+        doneReceived = true;
+        options.onDone?.(agentEvent.type === 'planner_done' ? agentEvent.response : '');
+      } else {
+        options.onEvent(agentEvent);
       }
-    } catch (error) {
-      if ((error as Error).name !== 'AbortError') {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        options.onError?.(message);
+    },
+    // 运行以 error 或 cancelled 结束（没有 planner_done 事件）时同样结束本次运行
+    onComplete: () => {
+      if (!doneReceived) options.onDone?.('');
+    },
+  });
+}
+
+/**
+ * Send a requirement to the Coding agent (SSE or WebSocket, per connection profile)
+ * Backend will auto-load project files when projectId is provided;
+ * conversationId ties follow-up requirements to the same coding session
+ */
+export function sendCodingMessage(
+  requirement: string,
+  projectId: string | undefined,
+  conversationId: string | undefined,
+  options: SSEClientOptions<CodingEvent | AgentEvent> & CodingRunOptions
+): AgentRunHandle {
+  let activeConversationId = conversationId;
+  let doneReceived = false;
+
+  return openAgentStream<unknown>({
+    path: '/api/coding',
+    getBody: () => ({
+      requirement,
+      projectId,
+      conversationId: activeConversationId,
+      fromTurn: options.fromTurn,
+      requireApproval: options.requireApproval,
+      attachments: options.attachments,
+      focusFiles: options.focusFiles,
+    }),
+    getRunContext: () => ({ projectId, conversationId: activeConversationId }),
+    options,
+    onMessage: ({ event, payload }) => {
+      if (event === 'conversation_id') {
+        activeConversationId = (payload as ConversationIdEvent).conversationId;
+        options.onConversationId?.(activeConversationId);
+        return;
       }
-    }
-  };
 
-  fetchSSE();
+      const validation = validateCodingEvent(payload);
+      if (!validation.ok) {
+        options.onInvalidEvent?.({ ...validation.issue, event });
+        return;
+      }
 
-  return () => abortController.abort();
+      const codingEvent = validation.event;
+      options.onEvent(codingEvent);
+      if (event === 'coding_done') {
+        options.onDone?.(codingEvent.type === 'coding_done' ? codingEvent.summary || '' : '');
+        doneReceived = true;
+      }
+    },
+    // 运行以 error 或 cancelled 结束（没有 coding_done 事件）时同样结束本次运行
+    onComplete: () => {
+      if (!doneReceived) options.onDone?.('');
+    },
+  });
 }
 
 // ============================================================================
@@ -313,10 +680,14 @@ export type ConversationEventType =
   | 'normal_message'
   | 'tool_call'
   | 'tool_result'
+  | 'tool_approval'
   | 'final_result'
+  | 'usage'
   | 'error'
   | 'artifact_event'
-  | 'plan_update';
+  | 'plan_update'
+  | 'step_start'
+  | 'step_complete';
 
 /**
  * 统一的会话事件接口（与后端保持一致）
@@ -327,54 +698,58 @@ export interface ConversationEvent {
   timestamp: number;
   // 内容字段（user, thought, normal_message, final_result 使用）
   content?: string;
-  // 工具调用相关 (type === 'tool_call' | 'tool_result' 时使用)
+  // 用户消息的附件 (type === 'user' 时使用)
+  attachments?: Attachment[];
+  // 编程需求中 @ 引用的项目文件 (type === 'user' 时使用)
+  mentions?: FileMention[];
+  // 工具调用相关 (type === 'tool_call' | 'tool_result' | 'tool_approval' 时使用)
   toolCallId?: string;
   toolName?: string;
   args?: Record<string, unknown>;
   result?: string;
   success?: boolean;
   duration?: number;
+  // 审批决定 (type === 'tool_approval' 时使用，args 为修改后的参数)
+  approved?: boolean;
+  reason?: string;
+  // 本轮统计 (type === 'final_result' 时使用)
+  totalDuration?: number;
+  iterationCount?: number;
+  // token 用量 (type === 'usage' 时使用)
+  model?: string;
+  promptTokens?: number;
+  completionTokens?: number;
+  cachedTokens?: number;
   // 计划相关 (type === 'plan_update' 时使用)
   plan?: Plan;
+  // 计划步骤 (type === 'step_start' | 'step_complete' 时使用，result / success / duration 同工具结果字段)；
+  // 其他事件上表示产生时所属的步骤
+  stepId?: string;
   // Artifact 相关 (type === 'artifact_event' 时使用)
   artifacts?: ArtifactInfo[];
   mode?: 'react' | 'plan';
   // 错误相关 (type === 'error' 时使用)
   message?: string;
+  // 分支元数据：事件所属的轮次及其父轮次（未提供时沿用上一个事件的轮次）
+  turnId?: string;
+  parentTurnId?: string | null;
 }
 
 /**
  * 获取项目列表
  */
-export async function getProjects(): Promise<ProjectInfo[]> {
-  try {
-    const response = await fetch(`${API_BASE}/api/projects`);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    const data = await response.json();
-    return data.projects || [];
-  } catch (error) {
-    console.error('Failed to fetch projects:', error);
-    return [];
-  }
+export async function getProjects(options: RequestOptions = {}): Promise<ApiResult<ProjectInfo[]>> {
+  return requestJSON('/api/projects', {}, options, (data: { projects?: ProjectInfo[] }) => data.projects ?? []);
 }
 
 /**
  * 获取项目详情（包含文件树）
  */
-export async function getProject(projectId: string): Promise<ProjectDetail | null> {
-  try {
-    const response = await fetch(`${API_BASE}/api/projects/${projectId}`);
-    if (!response.ok) {
-      if (response.status === 404) return null;
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Failed to fetch project:', error);
-    return null;
-  }
+export async function getProject(
+  projectId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<ProjectDetail>> {
+  return requestJSON<ProjectDetail>(`/api/projects/${projectId}`, {}, options);
 }
 
 /**
@@ -382,45 +757,29 @@ export async function getProject(projectId: string): Promise<ProjectDetail | nul
  */
 export async function persistProject(
   projectId: string,
-  name?: string
-): Promise<{ success: boolean; projectId?: string; error?: string }> {
-  try {
-    const response = await fetch(`${API_BASE}/api/projects/${projectId}/persist`, {
+  name?: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<{ projectId: string }>> {
+  return requestJSON(
+    `/api/projects/${projectId}/persist`,
+    {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ name }),
-    });
-    if (!response.ok) {
-      const data = await response.json();
-      return { success: false, error: data.error || 'Unknown error' };
-    }
-    const data = await response.json();
-    return { success: true, projectId: data.projectId };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return { success: false, error: message };
-  }
+    },
+    options,
+    (data: { projectId?: string }) => ({ projectId: data.projectId ?? projectId })
+  );
 }
 
 /**
  * 删除项目
  */
 export async function deleteProject(
-  projectId: string
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    const response = await fetch(`${API_BASE}/api/projects/${projectId}`, {
-      method: 'DELETE',
-    });
-    if (!response.ok) {
-      const data = await response.json();
-      return { success: false, error: data.error || 'Unknown error' };
-    }
-    return { success: true };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return { success: false, error: message };
-  }
+  projectId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<void>> {
+  return requestJSON(`/api/projects/${projectId}`, { method: 'DELETE' }, options, () => undefined);
 }
 
 // ============================================================================
@@ -429,15 +788,21 @@ export async function deleteProject(
 
 export interface ConversationListItem {
   conversationId: string;
+  // 编程模式会话所属的项目
+  projectId?: string;
   lastUserInput: string;
   updatedAt: string;
   createdAt: string;
   totalTurns: number;
+  // 会话累计的 token 用量（后端统计时提供）
+  usage?: ModelUsage;
 }
 
 export interface ConversationDetail {
   conversationId: string;
   events: ConversationEvent[];
+  // 带分支元数据时，当前展示分支的最后一轮（默认为最后出现的轮次）
+  activeTurnId?: string;
   metadata: {
     createdAt: string;
     updatedAt: string;
@@ -449,105 +814,105 @@ export interface ConversationDetail {
 /**
  * 获取推理模式会话列表
  */
-export async function getReactConversations(): Promise<ConversationListItem[]> {
-  try {
-    const response = await fetch(`${API_BASE}/api/react/conversations`);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Failed to fetch react conversations:', error);
-    return [];
-  }
+export async function getReactConversations(
+  options: RequestOptions = {}
+): Promise<ApiResult<ConversationListItem[]>> {
+  return requestJSON<ConversationListItem[]>('/api/react/conversations', {}, options);
 }
 
 /**
  * 获取推理模式会话详情
  */
-export async function getReactConversation(conversationId: string): Promise<ConversationDetail | null> {
-  try {
-    const response = await fetch(`${API_BASE}/api/react/conversation/${conversationId}`);
-    if (!response.ok) {
-      if (response.status === 404) return null;
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Failed to fetch react conversation:', error);
-    return null;
-  }
+export async function getReactConversation(
+  conversationId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<ConversationDetail>> {
+  return requestJSON<ConversationDetail>(`/api/react/conversation/${conversationId}`, {}, options);
 }
 
 /**
  * 删除推理模式会话
  */
-export async function deleteReactConversation(conversationId: string): Promise<{ success: boolean }> {
-  try {
-    const response = await fetch(`${API_BASE}/api/react/conversation/${conversationId}`, {
-      method: 'DELETE',
-    });
-    if (!response.ok) {
-      return { success: false };
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Failed to delete react conversation:', error);
-    return { success: false };
-  }
+export async function deleteReactConversation(
+  conversationId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<void>> {
+  return requestJSON(`/api/react/conversation/${conversationId}`, { method: 'DELETE' }, options, () => undefined);
 }
 
 /**
  * 获取规划模式会话列表
  */
-export async function getPlannerConversations(): Promise<ConversationListItem[]> {
-  try {
-    const response = await fetch(`${API_BASE}/api/planner/conversations`);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Failed to fetch planner conversations:', error);
-    return [];
-  }
+export async function getPlannerConversations(
+  options: RequestOptions = {}
+): Promise<ApiResult<ConversationListItem[]>> {
+  return requestJSON<ConversationListItem[]>('/api/planner/conversations', {}, options);
 }
 
 /**
  * 获取规划模式会话详情
  */
-export async function getPlannerConversation(conversationId: string): Promise<{
-  conversation: ConversationDetail | null;
-  plan: Plan | null;
-}> {
-  try {
-    const response = await fetch(`${API_BASE}/api/planner/conversation/${conversationId}`);
-    if (!response.ok) {
-      return { conversation: null, plan: null };
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Failed to fetch planner conversation:', error);
-    return { conversation: null, plan: null };
-  }
+export async function getPlannerConversation(
+  conversationId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<{ conversation: ConversationDetail | null; plan: Plan | null }>> {
+  return requestJSON(
+    `/api/planner/conversation/${conversationId}`,
+    {},
+    options,
+    (data: { conversation?: ConversationDetail | null; plan?: Plan | null }) => ({
+      conversation: data.conversation ?? null,
+      plan: data.plan ?? null,
+    })
+  );
 }
 
 /**
  * 删除规划模式会话
  */
-export async function deletePlannerConversation(conversationId: string): Promise<{ success: boolean }> {
-  try {
-    const response = await fetch(`${API_BASE}/api/planner/conversation/${conversationId}`, {
-      method: 'DELETE',
-    });
-    if (!response.ok) {
-      return { success: false };
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Failed to delete planner conversation:', error);
-    return { success: false };
-  }
+export async function deletePlannerConversation(
+  conversationId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<void>> {
+  return requestJSON(`/api/planner/conversation/${conversationId}`, { method: 'DELETE' }, options, () => undefined);
+}
+
+/**
+ * 编程模式会话详情：会话本身之外还包含所属项目
+ */
+export interface CodingConversationDetail extends ConversationDetail {
+  projectId?: string;
+}
+
+/**
+ * 获取编程模式会话列表（指定 projectId 时只返回该项目下的会话）
+ */
+export async function getCodingConversations(
+  projectId?: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<ConversationListItem[]>> {
+  const query = projectId ? `?projectId=${encodeURIComponent(projectId)}` : '';
+  return requestJSON<ConversationListItem[]>(`/api/coding/conversations${query}`, {}, options);
+}
+
+/**
+ * 获取编程模式会话详情
+ */
+export async function getCodingConversation(
+  conversationId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<CodingConversationDetail>> {
+  return requestJSON<CodingConversationDetail>(`/api/coding/conversation/${conversationId}`, {}, options);
+}
+
+/**
+ * 删除编程模式会话
+ */
+export async function deleteCodingConversation(
+  conversationId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<void>> {
+  return requestJSON(`/api/coding/conversation/${conversationId}`, { method: 'DELETE' }, options, () => undefined);
 }
 
 // ============================================================================
@@ -559,18 +924,16 @@ import type { ArtifactInfo } from '../types/events';
 /**
  * 获取 ReAct 会话的 artifact 列表
  */
-export async function getReactArtifacts(conversationId: string): Promise<ArtifactInfo[]> {
-  try {
-    const response = await fetch(`${API_BASE}/api/react/conversation/${conversationId}/artifacts`);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    const data = await response.json();
-    return data.artifacts || [];
-  } catch (error) {
-    console.error('Failed to fetch react artifacts:', error);
-    return [];
-  }
+export async function getReactArtifacts(
+  conversationId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<ArtifactInfo[]>> {
+  return requestJSON(
+    `/api/react/conversation/${conversationId}/artifacts`,
+    {},
+    options,
+    (data: { artifacts?: ArtifactInfo[] }) => data.artifacts ?? []
+  );
 }
 
 /**
@@ -578,38 +941,30 @@ export async function getReactArtifacts(conversationId: string): Promise<Artifac
  */
 export async function getReactArtifactContent(
   conversationId: string,
-  fileName: string
-): Promise<string> {
-  try {
-    const response = await fetch(
-      `${API_BASE}/api/react/conversation/${conversationId}/artifacts/${encodeURIComponent(fileName)}`
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    const data = await response.json();
-    return data.content || '';
-  } catch (error) {
-    console.error('Failed to fetch react artifact content:', error);
-    return '';
-  }
+  fileName: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<string>> {
+  return requestJSON(
+    `/api/react/conversation/${conversationId}/artifacts/${encodeURIComponent(fileName)}`,
+    {},
+    options,
+    (data: { content?: string }) => data.content ?? ''
+  );
 }
 
 /**
  * 获取 Planner 会话的 artifact 列表
  */
-export async function getPlannerArtifacts(conversationId: string): Promise<ArtifactInfo[]> {
-  try {
-    const response = await fetch(`${API_BASE}/api/planner/conversation/${conversationId}/artifacts`);
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    const data = await response.json();
-    return data.artifacts || [];
-  } catch (error) {
-    console.error('Failed to fetch planner artifacts:', error);
-    return [];
-  }
+export async function getPlannerArtifacts(
+  conversationId: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<ArtifactInfo[]>> {
+  return requestJSON(
+    `/api/planner/conversation/${conversationId}/artifacts`,
+    {},
+    options,
+    (data: { artifacts?: ArtifactInfo[] }) => data.artifacts ?? []
+  );
 }
 
 /**
@@ -617,19 +972,13 @@ export async function getPlannerArtifacts(conversationId: string): Promise<Artif
  */
 export async function getPlannerArtifactContent(
   conversationId: string,
-  fileName: string
-): Promise<string> {
-  try {
-    const response = await fetch(
-      `${API_BASE}/api/planner/conversation/${conversationId}/artifacts/${encodeURIComponent(fileName)}`
-    );
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    const data = await response.json();
-    return data.content || '';
-  } catch (error) {
-    console.error('Failed to fetch planner artifact content:', error);
-    return '';
-  }
+  fileName: string,
+  options: RequestOptions = {}
+): Promise<ApiResult<string>> {
+  return requestJSON(
+    `/api/planner/conversation/${conversationId}/artifacts/${encodeURIComponent(fileName)}`,
+    {},
+    options,
+    (data: { content?: string }) => data.content ?? ''
+  );
 }
@@ -0,0 +1,228 @@
+/**
+ * SSE 流解析器
+ * 按照 WHATWG HTML 规范（text/event-stream）解析服务端推送流
+ *
+ * 支持：多行 data、event/id/retry 字段、注释行、CR / LF / CRLF 行结束符
+ * 注释行（如 `: keep-alive`）不产生事件，但读取时会通过 onActivity 通知调用方连接仍然活跃
+ */
+
+/**
+ * 解析出的一条原始 SSE 消息
+ */
+export interface SSEMessage {
+  /** 事件名（未指定时为 'message'） */
+  event: string;
+  /** 多行 data 以 '\n' 拼接后的内容 */
+  data: string;
+  /** 最近一次收到的事件 ID（规范中的 last event ID，没有 id 行的事件沿用之前的值），用于续传 */
+  id?: string;
+  /** 本事件自己的 id 行（没有时为 undefined），用于去重 */
+  eventId?: string;
+  /** 服务端建议的重连间隔（毫秒） */
+  retry?: number;
+}
+
+/**
+ * 已解析 JSON 负载的 SSE 事件
+ */
+export interface SSEEnvelope<T> {
+  event: string;
+  payload: T;
+  id?: string;
+  eventId?: string;
+  retry?: number;
+}
+
+/**
+ * 增量式 SSE 解析器
+ * 每次 feed 一段已解码的文本，返回其中完整分发的消息
+ */
+export class SSEParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId = '';
+  // 当前事件的 id 行，分发后清除
+  private eventId: string | undefined;
+  private retry: number | undefined;
+
+  /**
+   * 输入一段文本，返回本段内完成分发的消息
+   */
+  feed(chunk: string): SSEMessage[] {
+    this.buffer += chunk;
+    const messages: SSEMessage[] = [];
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+
+      // 末尾的 CR 可能是被拆开的 CRLF，等待下一段数据再判断
+      if (ch === '\r' && i === this.buffer.length - 1) break;
+
+      const message = this.processLine(this.buffer.slice(start, i));
+      if (message) messages.push(message);
+
+      if (ch === '\r' && this.buffer[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return messages;
+  }
+
+  /**
+   * 流结束时调用
+   * 按规范，未以空行结束的事件会被丢弃
+   */
+  flush(): SSEMessage[] {
+    const messages: SSEMessage[] = [];
+    if (this.buffer.endsWith('\r')) {
+      const message = this.processLine(this.buffer.slice(0, -1));
+      if (message) messages.push(message);
+    }
+    this.reset();
+    return messages;
+  }
+
+  /**
+   * 重置解析状态（last event ID 与 retry 保留）
+   */
+  reset(): void {
+    this.buffer = '';
+    this.eventType = '';
+    this.dataLines = [];
+    this.eventId = undefined;
+  }
+
+  private processLine(line: string): SSEMessage | null {
+    // 空行：分发事件
+    if (line === '') {
+      return this.dispatch();
+    }
+
+    // 注释行
+    if (line.startsWith(':')) {
+      return null;
+    }
+
+    const colonIndex = line.indexOf(':');
+    let field: string;
+    let value: string;
+    if (colonIndex === -1) {
+      field = line;
+      value = '';
+    } else {
+      field = line.slice(0, colonIndex);
+      value = line.slice(colonIndex + 1);
+      if (value.startsWith(' ')) value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+          this.eventId = value || undefined;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+      default:
+        // 未知字段按规范忽略
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEMessage | null {
+    if (this.dataLines.length === 0) {
+      this.eventType = '';
+      this.eventId = undefined;
+      return null;
+    }
+
+    const message: SSEMessage = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId || undefined,
+      eventId: this.eventId,
+      retry: this.retry,
+    };
+    this.eventType = '';
+    this.dataLines = [];
+    this.eventId = undefined;
+    return message;
+  }
+}
+
+/**
+ * SSE 读取选项
+ */
+export interface ReadSSEOptions {
+  /** 每收到一段数据时调用（包括只含注释行的心跳） */
+  onActivity?: () => void;
+}
+
+/**
+ * 以异步迭代器形式读取 SSE 原始消息
+ */
+export async function* readSSEMessages(
+  body: ReadableStream<Uint8Array>,
+  options: ReadSSEOptions = {}
+): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      options.onActivity?.();
+      yield* parser.feed(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.feed(decoder.decode());
+    yield* parser.flush();
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * 以异步迭代器形式读取 SSE 事件，并将 data 解析为 JSON
+ * 无法解析的 data 会被记录并跳过
+ *
+ * @example
+ * ```ts
+ * for await (const { event, payload } of readSSEEvents<AgentEvent>(response)) {
+ *   console.log(event, payload.type);
+ * }
+ * ```
+ */
+export async function* readSSEEvents<T>(
+  response: Response,
+  options: ReadSSEOptions = {}
+): AsyncGenerator<SSEEnvelope<T>> {
+  if (!response.body) {
+    throw new Error('No response body');
+  }
+
+  for await (const message of readSSEMessages(response.body, options)) {
+    let payload: T;
+    try {
+      payload = JSON.parse(message.data) as T;
+    } catch {
+      console.error('Failed to parse SSE data:', message.data);
+      continue;
+    }
+    yield { event: message.event, payload, id: message.id, eventId: message.eventId, retry: message.retry };
+  }
+}
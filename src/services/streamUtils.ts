@@ -0,0 +1,153 @@
+/**
+ * 流式传输公共工具
+ * SSE 与 WebSocket 两种传输共用的重连配置、续传请求体、事件续传游标与停滞检测
+ */
+
+import type { StreamStallStatus } from './sseClient';
+
+/**
+ * 断线重连配置（指数退避）
+ */
+export const RECONNECT_CONFIG = {
+  maxRetries: 5,
+  baseDelay: 1000,
+  maxDelay: 15000,
+};
+
+// 等待后端 cancelled 事件的最长时间
+export const CANCEL_TIMEOUT = 5000;
+
+// 表示运行结束的事件（SSE 事件名或 payload.type）；error 之后运行可能继续，但连接随后关闭时视为运行已失败结束
+const TERMINAL_EVENTS = new Set(['done', 'planner_done', 'coding_done', 'cancelled', 'error']);
+
+/**
+ * 是否为运行结束的事件；连接在收到结束事件前关闭时视为中断，应续传
+ */
+export function isTerminalEvent(event: string, payload: unknown): boolean {
+  const type = (payload as { type?: unknown } | null)?.type;
+  return TERMINAL_EVENTS.has(event) || (typeof type === 'string' && TERMINAL_EVENTS.has(type));
+}
+
+// 只在启动运行时需要的字段（用户输入、附件、引用文件、分叉轮次）；续传时后端从已有运行继续，不再重复发送
+const START_ONLY_FIELDS = ['input', 'goal', 'requirement', 'attachments', 'focusFiles', 'fromTurn'];
+
+/**
+ * 续传（携带 lastEventId 重连）时的请求体：去掉只在启动时需要的字段，避免重复上传附件内容
+ */
+export function toResumeBody(body: Record<string, unknown>): Record<string, unknown> {
+  const resumeBody = { ...body };
+  for (const field of START_ONLY_FIELDS) {
+    delete resumeBody[field];
+  }
+  return resumeBody;
+}
+
+/**
+ * 读取事件序号：优先使用 payload.seq，其次使用该事件自带的数字 id
+ */
+function getEventSequence(payload: unknown, eventId: string | undefined): number | undefined {
+  const seq = (payload as { seq?: unknown } | null)?.seq;
+  if (typeof seq === 'number') return seq;
+  if (eventId !== undefined && /^\d+$/.test(eventId)) return Number(eventId);
+  return undefined;
+}
+
+/**
+ * 等待指定时间，可被 AbortSignal 提前中断
+ */
+export function waitFor(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * 事件续传游标
+ * 记录最后收到的事件 id / 序号，丢弃续传时重放的重复事件
+ */
+export interface EventCursor {
+  /**
+   * 返回 false 表示该事件是重复事件，应丢弃
+   * id 为续传用的 last event ID（SSE 中没有 id 行的事件沿用之前的值）；
+   * eventId 为该事件自己带的 id，只有它（或 payload.seq）参与去重，避免沿用的 id 把后续事件误判为重复
+   */
+  accept: (payload: unknown, id: string | undefined, eventId: string | undefined) => boolean;
+  /** 用于续传的最后事件 ID */
+  readonly lastEventId: string | undefined;
+  /** 是否可以安全续传：尚未收到事件，或已知最后事件 ID */
+  readonly canResume: boolean;
+}
+
+export function createEventCursor(): EventCursor {
+  let lastEventId: string | undefined;
+  let lastSequence = -1;
+  let receivedCount = 0;
+
+  return {
+    accept: (payload, id, eventId) => {
+      const sequence = getEventSequence(payload, eventId);
+      if (sequence !== undefined) {
+        if (sequence <= lastSequence) return false;
+        lastSequence = sequence;
+      }
+      if (id !== undefined) {
+        lastEventId = id;
+      } else if (sequence !== undefined) {
+        lastEventId = String(sequence);
+      }
+      receivedCount++;
+      return true;
+    },
+    get lastEventId() {
+      return lastEventId;
+    },
+    get canResume() {
+      return receivedCount === 0 || lastEventId !== undefined;
+    },
+  };
+}
+
+/**
+ * 停滞检测：超过 idleTimeout 未调用 arm() 时回调 onStall，之后再次 arm() 时以 null 回调
+ */
+export interface IdleWatchdog {
+  /** 收到数据或选择继续等待时调用，重新开始计时 */
+  arm: () => void;
+  /** 停止计时（连接断开或运行结束） */
+  disarm: () => void;
+}
+
+export function createIdleWatchdog(
+  label: string,
+  idleTimeout: number | undefined,
+  onStall: ((status: StreamStallStatus | null) => void) | undefined,
+  canReconnect: () => boolean
+): IdleWatchdog {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stalled = false;
+
+  const disarm = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const arm = () => {
+    disarm();
+    if (stalled) {
+      stalled = false;
+      onStall?.(null);
+    }
+    if (!idleTimeout) return;
+    timer = setTimeout(() => {
+      stalled = true;
+      console.warn(`[Stream] No data from ${label} for ${idleTimeout}ms`);
+      onStall?.({ idleFor: idleTimeout, canReconnect: canReconnect() });
+    }, idleTimeout);
+  };
+
+  return { arm, disarm };
+}
@@ -0,0 +1,239 @@
+/**
+ * WebSocket 传输
+ * 与 SSE 传输实现同一个 AgentRunHandle 接口，并可在运行中向后端发送消息（审批、回答、取消）
+ *
+ * 协议（`${baseUrl}${path}/ws`）：
+ * - 连接建立后客户端先发送 { type: 'start', body, lastEventId?, auth? }，续传时携带 lastEventId（body 不含用户输入与附件）；
+ *   浏览器无法为 WebSocket 设置请求头，鉴权信息放在 auth 中
+ * - 服务端每帧为 { event, data, id?, retry? }，与 SSE 的字段一一对应；event 为 heartbeat 的帧仅用于保活
+ * - 客户端消息为 ClientMessage 加上运行上下文（getRunContext）与 runId
+ * - 运行结束后服务端以 1000 关闭连接（尚未收到结束事件时按中断处理）；1008 与 4000-4499 表示请求本身有误，不重连；
+ *   其他关闭码按退避策略重连续传
+ */
+
+import type { RunStartedEvent } from '../types/events';
+import type { AgentRunHandle, AgentStreamRequest, ClientMessage } from './sseClient';
+import { ApiError } from './apiError';
+import { getActiveProfile } from '../lib/useSettingsStore';
+import { startStreamRecording } from './fixtureRecorder';
+import {
+  RECONNECT_CONFIG,
+  CANCEL_TIMEOUT,
+  waitFor,
+  createEventCursor,
+  createIdleWatchdog,
+  isTerminalEvent,
+  toResumeBody,
+} from './streamUtils';
+
+// 正常关闭
+const NORMAL_CLOSURE = 1000;
+
+/**
+ * 服务端推送的一帧
+ */
+interface ServerFrame {
+  event: string;
+  data: unknown;
+  id?: string;
+  retry?: number;
+}
+
+function toWebSocketUrl(baseUrl: string, path: string): string {
+  const url = new URL(`${baseUrl.replace(/\/+$/, '')}${path}/ws`);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+function isRetryableClose(code: number): boolean {
+  return code !== 1008 && !(code >= 4000 && code < 4500);
+}
+
+/**
+ * 通过 WebSocket 启动一次 agent 运行
+ */
+export function openWebSocketStream<E>({
+  path,
+  getBody,
+  getRunContext,
+  options,
+  onMessage,
+  onComplete,
+}: AgentStreamRequest<E>): AgentRunHandle {
+  const profile = getActiveProfile();
+  const abortController = new AbortController();
+  const cursor = createEventCursor();
+  const watchdog = createIdleWatchdog(path, options.idleTimeout, options.onStall, () => cursor.canResume);
+  const recording = startStreamRecording(path, getBody());
+  let socket: WebSocket | null = null;
+  let runId: string | undefined;
+  let retryDelay = RECONNECT_CONFIG.baseDelay;
+  let reconnectRequested = false;
+  // 已收到运行结束的事件（done / planner_done / coding_done / cancelled）
+  let terminalReceived = false;
+  // 运行已结束（完成、出错、中止或收到 cancelled）
+  let finished = false;
+  let notifyFinished: (() => void) | null = null;
+  const finish = () => {
+    if (finished) return;
+    finished = true;
+    watchdog.disarm();
+    recording?.finish();
+    notifyFinished?.();
+  };
+
+  /**
+   * 处理一帧；返回是否收到了新的事件（不含心跳与重复事件）
+   */
+  const handleFrame = (raw: string): boolean => {
+    let frame: ServerFrame;
+    try {
+      frame = JSON.parse(raw) as ServerFrame;
+    } catch {
+      console.error('Failed to parse WebSocket frame:', raw);
+      return false;
+    }
+    if (frame.event === 'heartbeat') return false;
+    if (frame.retry !== undefined) {
+      retryDelay = frame.retry;
+    }
+    if (!cursor.accept(frame.data, frame.id, frame.id)) return false;
+
+    recording?.record({ event: frame.event, data: JSON.stringify(frame.data), id: frame.id });
+
+    const type = (frame.data as { type?: unknown } | null)?.type;
+    if (frame.event === 'run_started' || type === 'run_started') {
+      runId = (frame.data as RunStartedEvent).runId;
+      return true;
+    }
+    if (isTerminalEvent(frame.event, frame.data)) {
+      terminalReceived = true;
+    }
+    onMessage({ event: frame.event, payload: frame.data as E, id: frame.id });
+    if (type === 'cancelled') {
+      finish();
+    }
+    return true;
+  };
+
+  const connect = (attempt: number) => {
+    const lastEventId = cursor.lastEventId;
+    const ws = new WebSocket(toWebSocketUrl(profile.baseUrl, path));
+    socket = ws;
+
+    // 连接超时：未能在配置的超时内建立连接时关闭，按连接中断处理
+    const connectTimer = setTimeout(() => {
+      if (ws.readyState === WebSocket.CONNECTING) ws.close();
+    }, profile.timeout);
+
+    ws.onopen = () => {
+      clearTimeout(connectTimer);
+      ws.send(JSON.stringify({
+        type: 'start',
+        body: lastEventId !== undefined ? toResumeBody(getBody()) : getBody(),
+        lastEventId,
+        auth: profile.authHeader?.name ? profile.authHeader : undefined,
+      }));
+      if (attempt > 0) {
+        options.onConnectionChange?.({ state: 'resumed', attempt, delay: 0, lastEventId });
+      }
+      watchdog.arm();
+    };
+
+    ws.onmessage = (message) => {
+      watchdog.arm();
+      // 续传后收到新事件：连接已恢复，之后的中断重新开始计算重连次数与退避
+      if (typeof message.data === 'string' && handleFrame(message.data)) {
+        attempt = 0;
+      }
+    };
+
+    ws.onclose = (event) => {
+      clearTimeout(connectTimer);
+      watchdog.disarm();
+      if (socket === ws) socket = null;
+
+      if (finished || abortController.signal.aborted) {
+        finish();
+        return;
+      }
+
+      if (reconnectRequested) {
+        // 停滞后手动重连：立即续传，不计入退避等待
+        reconnectRequested = false;
+        options.onConnectionChange?.({ state: 'reconnecting', attempt: attempt + 1, delay: 0, lastEventId: cursor.lastEventId });
+        connect(attempt + 1);
+        return;
+      }
+
+      if (event.code === NORMAL_CLOSURE && terminalReceived) {
+        onComplete?.();
+        finish();
+        return;
+      }
+
+      if (isRetryableClose(event.code) && cursor.canResume && attempt < RECONNECT_CONFIG.maxRetries) {
+        const delay = Math.min(retryDelay * 2 ** attempt, RECONNECT_CONFIG.maxDelay);
+        console.warn(`[WS] Connection lost (${event.code}), reconnecting in ${delay}ms (attempt ${attempt + 1})`);
+        options.onConnectionChange?.({ state: 'reconnecting', attempt: attempt + 1, delay, lastEventId: cursor.lastEventId });
+        waitFor(delay, abortController.signal).then(() => {
+          if (!abortController.signal.aborted) connect(attempt + 1);
+        });
+        return;
+      }
+
+      finish();
+      options.onError?.(`WebSocket closed (${event.code}${event.reason ? `: ${event.reason}` : ''})`);
+    };
+  };
+
+  const sendFrame = (message: ClientMessage): ApiError | null => {
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return new ApiError('network', 'WebSocket is not open', { path: `${path}/ws` });
+    }
+    socket.send(JSON.stringify({ ...message, ...getRunContext(), runId }));
+    return null;
+  };
+
+  const abort = () => {
+    abortController.abort();
+    socket?.close(NORMAL_CLOSURE);
+    finish();
+  };
+
+  const cancel = async (): Promise<ApiError | null> => {
+    if (finished) return null;
+
+    const confirmed = new Promise<boolean>(resolve => {
+      notifyFinished = () => resolve(true);
+    });
+    let error = sendFrame({ type: 'cancel' });
+    if (!error && !finished) {
+      const timeout = waitFor(CANCEL_TIMEOUT, abortController.signal).then(() => false);
+      if (!(await Promise.race([confirmed, timeout]))) {
+        error = new ApiError('timeout', `No cancelled event within ${CANCEL_TIMEOUT}ms`, { path: `${path}/ws` });
+      }
+    }
+    abort();
+    return error;
+  };
+
+  const reconnect = (): boolean => {
+    if (finished || !socket || !cursor.canResume) return false;
+    reconnectRequested = true;
+    socket.close(NORMAL_CLOSURE, 'reconnect');
+    return true;
+  };
+
+  connect(0);
+
+  return {
+    abort,
+    cancel,
+    send: async (message) => sendFrame(message),
+    keepWaiting: () => {
+      if (!finished) watchdog.arm();
+    },
+    reconnect,
+  };
+}
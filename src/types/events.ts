@@ -19,12 +19,27 @@ export interface ThoughtEvent {
 
 /**
  * 工具调用事件
+ * requiresApproval 为 true 时后端暂停执行，等待客户端发送审批决定
  */
 export interface ToolCallEvent {
   type: 'tool_call';
   toolCallId: string;
   toolName: string;
   args: Record<string, unknown>;
+  requiresApproval?: boolean;
+  timestamp: number;
+}
+
+/**
+ * 工具审批事件（后端已收到审批决定；拒绝时工具不会执行）
+ */
+export interface ToolApprovalEvent {
+  type: 'tool_approval';
+  toolCallId: string;
+  approved: boolean;
+  // 审批时修改后的参数
+  args?: Record<string, unknown>;
+  reason?: string;
   timestamp: number;
 }
 
@@ -52,6 +67,19 @@ export interface FinalResultEvent {
   timestamp: number;
 }
 
+/**
+ * Token 用量事件（可选，每次模型调用后发送一次，同一轮内累加）
+ */
+export interface UsageEvent {
+  type: 'usage';
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  // 命中缓存的 prompt token（包含在 promptTokens 中）
+  cachedTokens?: number;
+  timestamp: number;
+}
+
 /**
  * 错误事件
  */
@@ -62,6 +90,15 @@ export interface ErrorEvent {
   details?: unknown;
 }
 
+/**
+ * 取消事件（后端确认已停止运行，为本次运行的最后一个事件）
+ */
+export interface CancelledEvent {
+  type: 'cancelled';
+  reason?: string;
+  timestamp: number;
+}
+
 /**
  * 普通消息事件（用于友好提示等普通对话消息）
  */
@@ -156,6 +193,22 @@ export interface DoneEvent {
   result: string;
 }
 
+/**
+ * 会话 ID 事件（SSE 控制事件，由 sseClient 消费，不进入 AgentEvent）
+ */
+export interface ConversationIdEvent {
+  type: 'conversation_id';
+  conversationId: string;
+}
+
+/**
+ * 运行开始事件（SSE 控制事件，由 sseClient 消费，runId 用于取消运行）
+ */
+export interface RunStartedEvent {
+  type: 'run_started';
+  runId: string;
+}
+
 // ============================================================================
 // Planner 事件类型
 // ============================================================================
@@ -174,9 +227,31 @@ export interface Plan {
   reasoning: string;
 }
 
+/**
+ * 计划的一个修订版本
+ */
+export interface PlanRevision {
+  plan: Plan;
+  timestamp: number;
+  // 用户审阅时编辑后批准的版本
+  edited?: boolean;
+}
+
+/**
+ * 计划步骤的一次执行（由 step_start / step_complete 事件得到）
+ */
+export interface PlanStepRun {
+  startedAt: number;
+  duration?: number;
+  success?: boolean;
+  result?: string;
+}
+
 export interface PlanUpdateEvent {
   type: 'plan_update';
   plan: Plan;
+  // 后端已暂停，等待用户审阅并批准计划后再执行
+  awaitingReview?: boolean;
   timestamp?: number;
 }
 
@@ -242,9 +317,12 @@ export type AgentEvent =
   | ThoughtEvent
   | ToolCallEvent
   | ToolCallResultEvent
+  | ToolApprovalEvent
   | FinalResultEvent
   | FinalAnswerStreamEvent
+  | UsageEvent
   | ErrorEvent
+  | CancelledEvent
   | NormalMessageEvent
   | StepStartEvent
   | StepCompleteEvent
@@ -259,12 +337,18 @@ export type AgentEvent =
 // UI 消息类型
 // ============================================================================
 
-export type MessageType = 'user' | 'thought' | 'normal_message' | 'tool_call' | 'final_result' | 'error' | 'plan' | 'bdd' | 'architecture' | 'codegen' | 'artifact';
+export type MessageType = 'user' | 'thought' | 'normal_message' | 'tool_call' | 'final_result' | 'error' | 'plan' | 'bdd' | 'architecture' | 'codegen' | 'artifact' | 'unknown';
 
 export interface ChatItem {
   id: string;
   type: MessageType;
   content: string;
+  // 用户原始输入（不含模式前缀，编辑消息时使用）
+  input?: string;
+  // 用户消息的附件
+  attachments?: Attachment[];
+  // 编程需求中 @ 引用的项目文件
+  mentions?: FileMention[];
   // 工具调用相关
   toolCallId?: string;
   toolName?: string;
@@ -272,12 +356,29 @@ export interface ChatItem {
   result?: string;
   success?: boolean;
   duration?: number;
+  // 需要人工审批的工具调用
+  approval?: ToolApproval;
+  // 本轮的 token 用量（按模型，user 消息使用）
+  usage?: ModelUsage;
+  // 本轮总耗时与迭代次数（final_result 消息使用）
+  totalDuration?: number;
+  iterationCount?: number;
   // 流式状态
   isStreaming?: boolean;
   isComplete?: boolean;
+  // 运行被取消时仍未完成（工具调用 / 思考 / 流式答案）
+  isCancelled?: boolean;
   timestamp: number;
   // Plan 相关
   plan?: Plan;
+  // 各步骤的执行情况（plan 消息使用）
+  stepRuns?: Record<string, PlanStepRun>;
+  // 计划的历次修订（最后一个为最新版本）
+  planRevisions?: PlanRevision[];
+  // 计划审阅：pending 时计划可编辑，批准后才开始执行
+  planReview?: 'pending' | 'approved';
+  // 产生该消息时正在执行的计划步骤
+  stepId?: string;
   // Coding 相关
   bddFeatures?: BDDFeature[];
   architectureFiles?: ArchitectureFile[];
@@ -287,8 +388,81 @@ export interface ChatItem {
   artifacts?: ArtifactInfo[];
   conversationId?: string;
   mode?: 'react' | 'plan';
+  // 未知事件相关（type === 'unknown' 时使用）
+  eventType?: string;
+  rawEvent?: unknown;
+  // 分支（编辑用户消息后产生）：该消息起的各个后续版本，branchIndex 为当前展示的版本
+  branches?: ChatBranch[];
+  branchIndex?: number;
+}
+
+/**
+ * 编程需求中 @ 引用的项目文件（可选行范围，行号从 1 开始，含首尾）
+ * 作为重点关注的上下文随编程请求发送
+ */
+export interface FileMention {
+  path: string;
+  startLine?: number;
+  endLine?: number;
 }
 
+/**
+ * 用户消息的附件（文件或图片）
+ * 发送时以 base64 内联在请求中；历史记录中的附件也可能只提供 url
+ */
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  /** 文件大小（字节） */
+  size: number;
+  /** base64 编码的内容（不含 data: 前缀） */
+  data?: string;
+  url?: string;
+}
+
+/**
+ * 会话的一个分支：从分叉点（含）开始的消息，以及该分支对应的后端会话
+ */
+export interface ChatBranch {
+  items: ChatItem[];
+  conversationId?: string;
+}
+
+/**
+ * 工具调用的审批状态
+ */
+export interface ToolApproval {
+  status: 'pending' | 'approved' | 'denied';
+  // 拒绝原因
+  reason?: string;
+  // 批准时修改了参数
+  argsEdited?: boolean;
+}
+
+/**
+ * 用户的审批决定（args 为修改后的参数）
+ */
+export interface ToolApprovalDecision {
+  approved: boolean;
+  args?: Record<string, unknown>;
+  reason?: string;
+}
+
+/**
+ * Token 用量
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+}
+
+/**
+ * 按模型统计的 token 用量
+ */
+export type ModelUsage = Record<string, TokenUsage>;
+
 export interface ToolInfo {
   name: string;
   description: string;
@@ -386,4 +560,7 @@ export type CodingEvent =
   | NormalMessageEvent
   | ToolCallEvent
   | ToolCallResultEvent
-  | ErrorEvent;
+  | ToolApprovalEvent
+  | UsageEvent
+  | ErrorEvent
+  | CancelledEvent;